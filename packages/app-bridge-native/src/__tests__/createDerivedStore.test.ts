@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createDerivedStore, createNativeBridge, createStore } from '../index';
+import { BRIDGE_PROTOCOL_VERSION } from '@open-game-system/app-bridge-types';
+import type { BridgeStores, State } from '@open-game-system/app-bridge-types';
+
+// --- Test Setup ---
+interface LobbyState extends State {
+  players: string[];
+}
+
+type LobbyEvents = { type: 'JOIN'; name: string } | { type: 'LEAVE'; name: string };
+
+interface UserState extends State {
+  name: string;
+  ready: boolean;
+}
+
+type UserEvents = { type: 'SET_READY'; ready: boolean };
+
+interface MatchState extends State {
+  canStartMatch: boolean;
+}
+
+const createSources = () => {
+  const lobby = createStore<LobbyState, LobbyEvents>({
+    initialState: { players: ['host'] },
+    producer: (draft, event) => {
+      if (event.type === 'JOIN') draft.players.push(event.name);
+      if (event.type === 'LEAVE') draft.players = draft.players.filter(name => name !== event.name);
+    },
+  });
+  const user = createStore<UserState, UserEvents>({
+    initialState: { name: 'host', ready: false },
+    producer: (draft, event) => {
+      draft.ready = event.ready;
+    },
+  });
+  return { lobby, user };
+};
+
+const computeMatch = (lobby: LobbyState, user: UserState): MatchState => ({
+  canStartMatch: user.ready && lobby.players.length >= 2,
+});
+
+// --- Tests ---
+describe('createDerivedStore', () => {
+  it('should compute its state from the sources', () => {
+    const { lobby, user } = createSources();
+    const match = createDerivedStore({ sources: [lobby, user], compute: computeMatch });
+
+    expect(match.getSnapshot()).toEqual({ canStartMatch: false });
+
+    lobby.dispatch({ type: 'JOIN', name: 'guest' });
+    user.dispatch({ type: 'SET_READY', ready: true });
+
+    expect(match.getSnapshot()).toEqual({ canStartMatch: true });
+  });
+
+  it('should only recompute when a source state changes', () => {
+    const { lobby, user } = createSources();
+    const compute = vi.fn(computeMatch);
+    const match = createDerivedStore({ sources: [lobby, user], compute });
+
+    const first = match.getSnapshot();
+    expect(match.getSnapshot()).toBe(first);
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    lobby.dispatch({ type: 'JOIN', name: 'guest' });
+    match.getSnapshot();
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only notify subscribers when the computed value changes', () => {
+    const { lobby, user } = createSources();
+    const match = createDerivedStore({ sources: [lobby, user], compute: computeMatch });
+    const listener = vi.fn();
+    match.subscribe(listener);
+    expect(listener).toHaveBeenCalledWith({ canStartMatch: false });
+    listener.mockClear();
+
+    lobby.dispatch({ type: 'JOIN', name: 'guest' });
+    expect(listener).not.toHaveBeenCalled();
+
+    user.dispatch({ type: 'SET_READY', ready: true });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ canStartMatch: true });
+  });
+
+  it('should use a custom equality check', () => {
+    const { lobby, user } = createSources();
+    const match = createDerivedStore({
+      sources: [lobby],
+      compute: (lobbyState: LobbyState) => ({ count: lobbyState.players.length, updatedAt: Date.now() }),
+      equals: (previous, next) => previous.count === next.count,
+    });
+    const listener = vi.fn();
+    match.subscribe(listener);
+    listener.mockClear();
+
+    user.dispatch({ type: 'SET_READY', ready: true });
+    lobby.dispatch({ type: 'LEAVE', name: 'nobody' });
+    expect(listener).not.toHaveBeenCalled();
+
+    lobby.dispatch({ type: 'JOIN', name: 'guest' });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop listening to sources once unsubscribed', () => {
+    const { lobby, user } = createSources();
+    const compute = vi.fn(computeMatch);
+    const match = createDerivedStore({ sources: [lobby, user], compute });
+    const unsubscribe = match.subscribe(() => {});
+    unsubscribe();
+    compute.mockClear();
+
+    lobby.dispatch({ type: 'JOIN', name: 'guest' });
+
+    expect(compute).not.toHaveBeenCalled();
+  });
+
+  it('should reject dispatched events', () => {
+    const { lobby, user } = createSources();
+    const match = createDerivedStore<MatchState, [typeof lobby, typeof user], { type: 'START' }>({
+      sources: [lobby, user],
+      compute: computeMatch,
+    });
+
+    expect(() => match.dispatch({ type: 'START' })).toThrow('derived stores are read-only');
+  });
+
+  it('should sync to WebViews when registered with the bridge', () => {
+    type Stores = BridgeStores<{ match: { state: MatchState; events: never } }>;
+    const { lobby, user } = createSources();
+    const bridge = createNativeBridge<Stores>();
+    bridge.setStore('match', createDerivedStore({ sources: [lobby, user], compute: computeMatch }));
+    const messages: string[] = [];
+    bridge.registerWebView({ postMessage: (message: string) => messages.push(message) });
+
+    lobby.dispatch({ type: 'JOIN', name: 'guest' });
+    user.dispatch({ type: 'SET_READY', ready: true });
+
+    expect(messages.map(message => JSON.parse(message))).toEqual([
+      { type: 'STATE_INIT', storeKey: 'match', data: { canStartMatch: false }, version: 0, protocolVersion: BRIDGE_PROTOCOL_VERSION },
+      {
+        type: 'STATE_UPDATE',
+        storeKey: 'match',
+        operations: [{ op: 'replace', path: '/canStartMatch', value: true }],
+        version: 1,
+      },
+    ]);
+  });
+});
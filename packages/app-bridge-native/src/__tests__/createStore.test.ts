@@ -1,6 +1,8 @@
 import { describe, it, expect, vi } from 'vitest'; // Use vitest imports
+import { applyPatch, deepClone } from 'fast-json-patch';
 import { createStore } from '../index'; // Adjust path as needed
-import type { State, Event, Store } from '@open-game-system/app-bridge-types';
+import { EventValidationError, UNDO_EVENT_TYPE, REDO_EVENT_TYPE, shallowEqual } from '@open-game-system/app-bridge-types';
+import type { State, Event, Store, Middleware, StandardSchema, PersistStorage, HistoryEvent } from '@open-game-system/app-bridge-types';
 
 // --- Test Setup ---
 interface TestState extends State {
@@ -41,6 +43,9 @@ const testProducer = (draft: TestState, event: TestEvents) => {
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Metadata createStore attaches to local dispatches
+const nativeMeta = expect.objectContaining({ source: 'native', timestamp: expect.any(Number) });
+
 // --- Tests --- 
 describe('createStore', () => {
 
@@ -71,7 +76,10 @@ describe('createStore', () => {
     await store.dispatch({ type: 'INCREMENT', amount: 1 });
 
     expect(listener).toHaveBeenCalledTimes(2);
-    expect(listener).toHaveBeenCalledWith({ count: 1, lastEvent: 'INCREMENT' });
+    expect(listener).toHaveBeenCalledWith({ count: 1, lastEvent: 'INCREMENT' }, [
+      { op: 'add', path: '/lastEvent', value: 'INCREMENT' },
+      { op: 'replace', path: '/count', value: 1 },
+    ]);
 
     unsubscribe();
     await store.dispatch({ type: 'DECREMENT' });
@@ -79,6 +87,31 @@ describe('createStore', () => {
     expect(listener).toHaveBeenCalledTimes(2);
   });
 
+  it('should describe each change as JSON Patch operations', () => {
+    interface InventoryState extends State {
+      items: { id: string; qty: number }[];
+      labels: Record<string, string>;
+    }
+    type InventoryEvents = { type: 'SHUFFLE' };
+    const store = createStore<InventoryState, InventoryEvents>({
+      initialState: { items: [{ id: 'a', qty: 1 }, { id: 'b', qty: 2 }, { id: 'c', qty: 3 }], labels: {} },
+      producer: (draft) => {
+        draft.items.splice(1, 1);
+        draft.items[0].qty = 5;
+        draft.items.push({ id: 'd', qty: 4 });
+        draft.labels['a/b~c'] = 'escaped';
+      },
+    });
+    const before = deepClone(store.getSnapshot());
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.dispatch({ type: 'SHUFFLE' });
+
+    const [state, operations] = listener.mock.calls[1];
+    expect(applyPatch(before, operations).newDocument).toEqual(state);
+  });
+
   it('should invoke listeners defined in the `on` configuration', async () => {
     // Use vi.fn() and provide types if needed, though often inferred
     const onIncrementListener = vi.fn<[Extract<TestEvents, { type: 'INCREMENT' }>, Store<TestState, TestEvents>], Promise<void> | void>();
@@ -98,13 +131,13 @@ describe('createStore', () => {
 
     await store.dispatch({ type: 'INCREMENT', amount: 2 });
     expect(onIncrementListener).toHaveBeenCalledTimes(1);
-    expect(onIncrementListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'INCREMENT', amount: 2 }), store);
+    expect(onIncrementListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'INCREMENT', amount: 2 }), store, nativeMeta);
     expect(onDecrementListener).not.toHaveBeenCalled();
 
     await store.dispatch({ type: 'DECREMENT' });
     expect(onIncrementListener).toHaveBeenCalledTimes(1);
     expect(onDecrementListener).toHaveBeenCalledTimes(1);
-    expect(onDecrementListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'DECREMENT' }), store);
+    expect(onDecrementListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'DECREMENT' }), store, nativeMeta);
   });
 
   it('should invoke listeners added via the `store.on()` method', async () => {
@@ -117,13 +150,13 @@ describe('createStore', () => {
 
     await store.dispatch({ type: 'INCREMENT', amount: 3 });
     expect(onIncrementListener).toHaveBeenCalledTimes(1);
-    expect(onIncrementListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'INCREMENT', amount: 3 }), store);
+    expect(onIncrementListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'INCREMENT', amount: 3 }), store, nativeMeta);
     expect(onDecrementListener).not.toHaveBeenCalled();
 
     await store.dispatch({ type: 'DECREMENT' });
     expect(onIncrementListener).toHaveBeenCalledTimes(1);
     expect(onDecrementListener).toHaveBeenCalledTimes(1);
-    expect(onDecrementListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'DECREMENT' }), store);
+    expect(onDecrementListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'DECREMENT' }), store, nativeMeta);
 
     unsubInc();
     await store.dispatch({ type: 'INCREMENT', amount: 1 });
@@ -153,8 +186,8 @@ describe('createStore', () => {
 
     expect(configListener).toHaveBeenCalledTimes(1);
     expect(dynamicListener).toHaveBeenCalledTimes(1);
-    expect(configListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'INCREMENT', amount: 7 }), store);
-    expect(dynamicListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'INCREMENT', amount: 7 }), store);
+    expect(configListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'INCREMENT', amount: 7 }), store, nativeMeta);
+    expect(dynamicListener).toHaveBeenCalledWith(expect.objectContaining({ type: 'INCREMENT', amount: 7 }), store, nativeMeta);
   });
 
   it('should handle async listeners and execute them without awaiting dispatch', async () => {
@@ -204,6 +237,579 @@ describe('createStore', () => {
      expect(store.getSnapshot().count).toBe(1);
   });
 
+  it('should pass event metadata to listeners', () => {
+    const listener = vi.fn();
+    const store = createStore<TestState, TestEvents>({
+      initialState,
+      producer: testProducer,
+      on: { INCREMENT: listener },
+    });
+
+    store.dispatch({ type: 'INCREMENT', amount: 1 }, { correlationId: 'abc' });
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'INCREMENT' }),
+      store,
+      { source: 'native', timestamp: expect.any(Number), correlationId: 'abc' }
+    );
+  });
+
+  it('should leave state untouched, call onError and rethrow when the producer throws', () => {
+    const onError = vi.fn();
+    const store = createStore<TestState, TestEvents>({
+      initialState,
+      producer: (draft, event) => {
+        draft.count += 1;
+        if (event.type === 'DECREMENT') throw new Error('boom');
+      },
+      onError,
+    });
+    const listener = vi.fn();
+    store.subscribe(listener);
+    listener.mockClear();
+
+    expect(() => store.dispatch({ type: 'DECREMENT' })).toThrow('boom');
+
+    expect(store.getSnapshot()).toEqual(initialState);
+    expect(listener).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }), { type: 'DECREMENT' }, nativeMeta);
+  });
+
+  describe('select', () => {
+    it('should only call the listener when the selected value changes', () => {
+      const store = createStore<TestState, TestEvents>({ initialState, producer: testProducer });
+      const listener = vi.fn();
+      store.select!(state => state.count, listener);
+      expect(listener).not.toHaveBeenCalled();
+
+      store.dispatch({ type: 'DECREMENT' }); // count stays 0, lastEvent changes
+      expect(listener).not.toHaveBeenCalled();
+
+      store.dispatch({ type: 'INCREMENT', amount: 2 });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(2, 0);
+    });
+
+    it('should call the listener right away with fireImmediately', () => {
+      const store = createStore<TestState, TestEvents>({ initialState, producer: testProducer });
+      const listener = vi.fn();
+      store.select!(state => state.count, listener, { fireImmediately: true });
+      expect(listener).toHaveBeenCalledWith(0, 0);
+    });
+
+    it('should compare selections with equalityFn', () => {
+      const store = createStore<TestState, TestEvents>({ initialState, producer: testProducer });
+      const listener = vi.fn();
+      store.select!(state => ({ count: state.count }), listener, { equalityFn: shallowEqual });
+
+      store.dispatch({ type: 'DECREMENT' });
+      expect(listener).not.toHaveBeenCalled();
+
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0 });
+    });
+
+    it('should stop calling the listener after unsubscribing', () => {
+      const store = createStore<TestState, TestEvents>({ initialState, producer: testProducer });
+      const listener = vi.fn();
+      const unsubscribe = store.select!(state => state.count, listener);
+      unsubscribe();
+
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('middleware', () => {
+    it('should run middleware in order before the producer', () => {
+      const calls: string[] = [];
+      const track = (name: string): Middleware<TestState, TestEvents> => (store) => (next) => (event, meta) => {
+        calls.push(`${name}:before:${store.getSnapshot().count}`);
+        next(event, meta);
+        calls.push(`${name}:after:${store.getSnapshot().count}`);
+      };
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: testProducer,
+        middleware: [track('outer'), track('inner')],
+      });
+
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+
+      expect(calls).toEqual(['outer:before:0', 'inner:before:0', 'inner:after:1', 'outer:after:1']);
+    });
+
+    it('should let middleware rewrite events', () => {
+      const listener = vi.fn();
+      const doubler: Middleware<TestState, TestEvents> = () => (next) => (event, meta) => {
+        next(event.type === 'INCREMENT' ? { ...event, amount: event.amount * 2 } : event, meta);
+      };
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: testProducer,
+        middleware: [doubler],
+        on: { INCREMENT: listener },
+      });
+
+      store.dispatch({ type: 'INCREMENT', amount: 3 });
+
+      expect(store.getSnapshot().count).toBe(6);
+      expect(listener).toHaveBeenCalledWith({ type: 'INCREMENT', amount: 6 }, store, nativeMeta);
+    });
+
+    it('should let middleware block events', () => {
+      const listener = vi.fn();
+      const blockDecrement: Middleware<TestState, TestEvents> = () => (next) => (event, meta) => {
+        if (event.type !== 'DECREMENT') next(event, meta);
+      };
+      const store = createStore<TestState, TestEvents>({
+        initialState: { count: 5 },
+        producer: testProducer,
+        middleware: [blockDecrement],
+        on: { DECREMENT: listener },
+      });
+
+      store.dispatch({ type: 'DECREMENT' });
+
+      expect(store.getSnapshot().count).toBe(5);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should pass event metadata through the chain', () => {
+      const seen = vi.fn();
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: testProducer,
+        middleware: [() => (next) => (event, meta) => { seen(meta); next(event, meta); }],
+      });
+
+      store.dispatch({ type: 'DECREMENT' }, { source: 'webview', webViewId: 'lobby' });
+
+      expect(seen).toHaveBeenCalledWith(expect.objectContaining({ source: 'webview', webViewId: 'lobby' }));
+    });
+  });
+
+  describe('validation', () => {
+    const positiveAmount = (event: unknown) =>
+      typeof (event as { amount?: unknown }).amount === 'number' &&
+      (event as { amount: number }).amount > 0
+        ? true
+        : 'amount must be a positive number';
+
+    it('should reject invalid events before middleware and the producer run', () => {
+      const seenByMiddleware = vi.fn();
+      const listener = vi.fn();
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: testProducer,
+        middleware: [() => (next) => (event, meta) => { seenByMiddleware(event); next(event, meta); }],
+        validate: { INCREMENT: positiveAmount },
+        on: { INCREMENT: listener },
+      });
+
+      let thrown: unknown;
+      try {
+        store.dispatch({ type: 'INCREMENT' } as TestEvents);
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(EventValidationError);
+      expect(thrown).toMatchObject({
+        code: 'INVALID_EVENT',
+        eventType: 'INCREMENT',
+        issues: ['amount must be a positive number'],
+      });
+      expect(store.getSnapshot()).toEqual(initialState);
+      expect(seenByMiddleware).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+
+      store.dispatch({ type: 'INCREMENT', amount: 2 });
+      expect(store.getSnapshot().count).toBe(2);
+    });
+
+    it('should accept Standard Schema validators', () => {
+      const schema: StandardSchema = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value) =>
+            (value as { amount?: unknown }).amount === undefined
+              ? { issues: [{ message: 'amount is required' }] }
+              : { value },
+        },
+      };
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: testProducer,
+        validate: { INCREMENT: schema },
+      });
+
+      expect(() => store.dispatch({ type: 'INCREMENT' } as TestEvents)).toThrow('amount is required');
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      expect(store.getSnapshot().count).toBe(1);
+    });
+
+    it('should not check event types without a validator', () => {
+      const store = createStore<TestState, TestEvents>({
+        initialState: { count: 1 },
+        producer: testProducer,
+        validate: { INCREMENT: () => false },
+      });
+
+      store.dispatch({ type: 'DECREMENT' });
+      expect(store.getSnapshot().count).toBe(0);
+    });
+  });
+
+  describe('persistence', () => {
+    const createMemoryStorage = (initial: Record<string, string> = {}) => {
+      const items = new Map(Object.entries(initial));
+      const storage: PersistStorage = {
+        getItem: vi.fn(async (key: string) => items.get(key) ?? null),
+        setItem: vi.fn(async (key: string, value: string) => {
+          items.set(key, value);
+        }),
+        removeItem: vi.fn(async (key: string) => {
+          items.delete(key);
+        }),
+      };
+      return { storage, items };
+    };
+
+    it('should hydrate from storage before reporting hydrated', async () => {
+      const { storage } = createMemoryStorage({
+        counter: JSON.stringify({ version: 0, state: { count: 42 } }),
+      });
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: testProducer,
+        persist: { key: 'counter', storage },
+      });
+
+      expect(store.isHydrated?.()).toBe(false);
+      expect(store.getSnapshot()).toEqual(initialState);
+
+      await store.whenHydrated?.();
+
+      expect(store.isHydrated?.()).toBe(true);
+      expect(store.getSnapshot()).toEqual({ count: 42 });
+    });
+
+    it('should write state changes after the debounce interval', async () => {
+      const { storage, items } = createMemoryStorage();
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: testProducer,
+        persist: { key: 'counter', storage, version: 2, debounce: 20 },
+      });
+      await store.whenHydrated?.();
+
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      expect(storage.setItem).not.toHaveBeenCalled();
+
+      await delay(30);
+
+      expect(storage.setItem).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(items.get('counter')!)).toEqual({
+        version: 2,
+        state: { count: 2, lastEvent: 'INCREMENT' },
+      });
+    });
+
+    it('should migrate state saved under an older version', async () => {
+      const { storage } = createMemoryStorage({
+        counter: JSON.stringify({ version: 1, state: { total: 7 } }),
+      });
+      const migrate = vi.fn((persisted: unknown) => ({ count: (persisted as { total: number }).total }));
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        persist: { key: 'counter', storage, version: 2, migrate },
+      });
+
+      await store.whenHydrated?.();
+
+      expect(migrate).toHaveBeenCalledWith({ total: 7 }, 1);
+      expect(store.getSnapshot()).toEqual({ count: 7 });
+    });
+
+    it('should run registered migrations up to the schema version', async () => {
+      const { storage, items } = createMemoryStorage({
+        counter: JSON.stringify({ version: 1, state: { total: 7 } }),
+      });
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        schemaVersion: 3,
+        migrations: {
+          2: (state: { total: number }) => ({ count: state.total }),
+          3: (state: { count: number }) => ({ ...state, lastEvent: 'MIGRATED' }),
+        },
+        persist: { key: 'counter', storage, debounce: 0 },
+      });
+
+      await store.whenHydrated?.();
+
+      expect(store.getSnapshot()).toEqual({ count: 7, lastEvent: 'MIGRATED' });
+      await delay(5);
+      expect(JSON.parse(items.get('counter')!)).toMatchObject({ version: 3 });
+    });
+
+    it('should discard state when a migration step is missing', async () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { storage } = createMemoryStorage({
+        counter: JSON.stringify({ version: 1, state: { total: 7 } }),
+      });
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        schemaVersion: 3,
+        migrations: { 3: (state) => state },
+        persist: { key: 'counter', storage },
+      });
+
+      await store.whenHydrated?.();
+
+      expect(store.getSnapshot()).toEqual(initialState);
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should discard state saved under another version without a migration', async () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { storage, items } = createMemoryStorage({
+        counter: JSON.stringify({ version: 1, state: { count: 9 } }),
+      });
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        persist: { key: 'counter', storage, version: 2 },
+      });
+
+      await store.whenHydrated?.();
+
+      expect(store.getSnapshot()).toEqual(initialState);
+      expect(items.has('counter')).toBe(false);
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should fall back to the initial state when storage fails', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const storage: PersistStorage = {
+        getItem: () => Promise.reject(new Error('Disk full')),
+        setItem: () => {},
+      };
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        persist: { key: 'counter', storage },
+      });
+
+      await store.whenHydrated?.();
+
+      expect(store.isHydrated?.()).toBe(true);
+      expect(store.getSnapshot()).toEqual(initialState);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to load persisted state "counter"'),
+        expect.any(Error)
+      );
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('history', () => {
+    const createHistoryStore = (history: boolean | { limit: number } = true) =>
+      createStore<TestState, TestEvents | HistoryEvent>({
+        initialState,
+        producer: (draft, event) => {
+          if (event.type === 'INCREMENT') draft.count += event.amount;
+        },
+        history,
+      });
+
+    it('should not record history unless enabled', () => {
+      const store = createStore<TestState, TestEvents>({ initialState, producer: testProducer });
+      expect(store.history).toBeUndefined();
+    });
+
+    it('should undo and redo changes', () => {
+      const store = createHistoryStore();
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      store.dispatch({ type: 'INCREMENT', amount: 2 });
+
+      expect(store.history!.undo()).toBe(true);
+      expect(store.getSnapshot().count).toBe(1);
+      expect(store.history!.canRedo()).toBe(true);
+
+      expect(store.history!.redo()).toBe(true);
+      expect(store.getSnapshot().count).toBe(3);
+      expect(store.history!.canRedo()).toBe(false);
+    });
+
+    it('should notify subscribers when undoing', () => {
+      const store = createHistoryStore();
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.history!.undo();
+
+      expect(listener).toHaveBeenLastCalledWith({ count: 0 }, [{ op: 'replace', path: '/count', value: 0 }]);
+    });
+
+    it('should drop redo steps after a new change', () => {
+      const store = createHistoryStore();
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      store.history!.undo();
+      store.dispatch({ type: 'INCREMENT', amount: 5 });
+
+      expect(store.history!.canRedo()).toBe(false);
+      expect(store.history!.redo()).toBe(false);
+      expect(store.getSnapshot().count).toBe(5);
+    });
+
+    it('should keep at most `limit` undo steps', () => {
+      const store = createHistoryStore({ limit: 2 });
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+
+      expect(store.history!.undo()).toBe(true);
+      expect(store.history!.undo()).toBe(true);
+      expect(store.history!.undo()).toBe(false);
+      expect(store.getSnapshot().count).toBe(1);
+    });
+
+    it('should undo grouped events as one step', () => {
+      const store = createHistoryStore();
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      store.history!.group(() => {
+        store.dispatch({ type: 'INCREMENT', amount: 2 });
+        store.dispatch({ type: 'INCREMENT', amount: 3 });
+      });
+
+      store.history!.undo();
+      expect(store.getSnapshot().count).toBe(1);
+      store.history!.redo();
+      expect(store.getSnapshot().count).toBe(6);
+    });
+
+    it('should handle the built-in undo and redo events', () => {
+      const store = createHistoryStore();
+      store.dispatch({ type: 'INCREMENT', amount: 4 });
+
+      store.dispatch({ type: UNDO_EVENT_TYPE });
+      expect(store.getSnapshot().count).toBe(0);
+
+      store.dispatch({ type: REDO_EVENT_TYPE });
+      expect(store.getSnapshot().count).toBe(4);
+    });
+
+    it('should clear history on reset', () => {
+      const store = createHistoryStore();
+      store.dispatch({ type: 'INCREMENT', amount: 4 });
+      store.reset();
+
+      expect(store.history!.canUndo()).toBe(false);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should notify subscribers once with the final state', () => {
+      const store = createStore<TestState, TestEvents>({ initialState, producer: testProducer });
+      const listener = vi.fn();
+      store.subscribe(listener);
+      listener.mockClear();
+
+      store.transaction!(() => {
+        store.dispatch({ type: 'INCREMENT', amount: 2 });
+        store.dispatch({ type: 'INCREMENT', amount: 3 });
+        expect(store.getSnapshot().count).toBe(5);
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      const [state, operations] = listener.mock.calls[0];
+      expect(state).toEqual({ count: 5, lastEvent: 'INCREMENT' });
+      expect(applyPatch(deepClone(initialState), operations).newDocument).toEqual(state);
+    });
+
+    it('should run event listeners after the commit', () => {
+      const seen: number[] = [];
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: testProducer,
+        on: { INCREMENT: (_event, store) => { seen.push(store.getSnapshot().count); } },
+      });
+
+      store.transaction!(() => {
+        store.dispatch({ type: 'INCREMENT', amount: 1 });
+        store.dispatch({ type: 'INCREMENT', amount: 1 });
+        expect(seen).toEqual([]);
+      });
+
+      expect(seen).toEqual([2, 2]);
+    });
+
+    it('should roll back and rethrow when a producer throws', () => {
+      const store = createStore<TestState, TestEvents>({
+        initialState,
+        producer: (draft, event) => {
+          if (event.type === 'DECREMENT') throw new Error('boom');
+          testProducer(draft, event);
+        },
+      });
+      const listener = vi.fn();
+      const eventListener = vi.fn();
+      store.subscribe(listener);
+      store.on('INCREMENT', eventListener);
+      listener.mockClear();
+
+      expect(() =>
+        store.transaction!(() => {
+          store.dispatch({ type: 'INCREMENT', amount: 1 });
+          store.dispatch({ type: 'DECREMENT' });
+        })
+      ).toThrow('boom');
+
+      expect(store.getSnapshot()).toEqual(initialState);
+      expect(listener).not.toHaveBeenCalled();
+      expect(eventListener).not.toHaveBeenCalled();
+    });
+
+    it('should join nested transactions to the outer one', () => {
+      const store = createStore<TestState, TestEvents>({ initialState, producer: testProducer });
+      const listener = vi.fn();
+      store.subscribe(listener);
+      listener.mockClear();
+
+      store.transaction!(() => {
+        store.dispatch({ type: 'INCREMENT', amount: 1 });
+        store.transaction!(() => store.dispatch({ type: 'INCREMENT', amount: 1 }));
+        expect(listener).not.toHaveBeenCalled();
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(store.getSnapshot().count).toBe(2);
+    });
+
+    it('should record a transaction as one undo step', () => {
+      const store = createStore<TestState, TestEvents | HistoryEvent>({
+        initialState,
+        producer: (draft, event) => {
+          if (event.type === 'INCREMENT') draft.count += event.amount;
+        },
+        history: true,
+      });
+      store.dispatch({ type: 'INCREMENT', amount: 1 });
+      store.transaction!(() => {
+        store.dispatch({ type: 'INCREMENT', amount: 2 });
+        store.dispatch({ type: 'INCREMENT', amount: 3 });
+      });
+
+      store.history!.undo();
+      expect(store.getSnapshot().count).toBe(1);
+      store.history!.redo();
+      expect(store.getSnapshot().count).toBe(6);
+    });
+  });
+
    it('should handle errors within async listeners gracefully (unhandled rejection)', async () => {
     const errorListener = vi.fn<[Extract<TestEvents, { type: 'INCREMENT' }>, Store<TestState, TestEvents>], Promise<void> | void>(async (event, store) => {
       await delay(5);
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createStore, runEffects } from '../index';
+import type { State, EffectContext } from '@open-game-system/app-bridge-types';
+
+// --- Test Setup ---
+interface SearchState extends State {
+  query: string;
+  results: string[];
+}
+
+type SearchEvents =
+  | { type: 'SEARCH'; query: string }
+  | { type: 'RESULTS'; results: string[] }
+  | { type: 'LOG'; message: string };
+
+const createSearchStore = () =>
+  createStore<SearchState, SearchEvents>({
+    initialState: { query: '', results: [] },
+    producer: (draft, event) => {
+      if (event.type === 'SEARCH') draft.query = event.query;
+      if (event.type === 'RESULTS') draft.results = event.results;
+    },
+  });
+
+// Resolves after `ms`, rejects once the signal is aborted
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('aborted'));
+    });
+  });
+
+// --- Tests ---
+describe('runEffects', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run plain handlers for every event and dispatch follow-ups', async () => {
+    const store = createSearchStore();
+    const handler = vi.fn(async (event: { query: string }, { dispatch }: EffectContext<SearchState, SearchEvents>) => {
+      dispatch({ type: 'RESULTS', results: [event.query] });
+    });
+    runEffects(store, { SEARCH: handler });
+
+    store.dispatch({ type: 'SEARCH', query: 'a' });
+    store.dispatch({ type: 'SEARCH', query: 'b' });
+    await Promise.resolve();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(store.getSnapshot().results).toEqual(['b']);
+  });
+
+  it('should abort the previous run with the "latest" strategy', async () => {
+    vi.useFakeTimers();
+    const store = createSearchStore();
+    const signals: AbortSignal[] = [];
+    runEffects(store, {
+      SEARCH: {
+        strategy: 'latest',
+        run: async (event, { signal, dispatch }) => {
+          signals.push(signal);
+          await wait(100, signal);
+          dispatch({ type: 'RESULTS', results: [event.query] });
+        },
+      },
+    });
+
+    store.dispatch({ type: 'SEARCH', query: 'a' });
+    store.dispatch({ type: 'SEARCH', query: 'ab' });
+    expect(signals.map(signal => signal.aborted)).toEqual([true, false]);
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(store.getSnapshot().results).toEqual(['ab']);
+  });
+
+  it('should run debounced effects once events stop arriving', async () => {
+    vi.useFakeTimers();
+    const store = createSearchStore();
+    const run = vi.fn();
+    runEffects(store, { SEARCH: { strategy: { debounce: 50 }, run } });
+
+    store.dispatch({ type: 'SEARCH', query: 'a' });
+    await vi.advanceTimersByTimeAsync(30);
+    store.dispatch({ type: 'SEARCH', query: 'ab' });
+    await vi.advanceTimersByTimeAsync(30);
+    expect(run).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run.mock.calls[0][0]).toEqual({ type: 'SEARCH', query: 'ab' });
+  });
+
+  it('should route errors to onError', async () => {
+    const store = createSearchStore();
+    const onError = vi.fn();
+    runEffects(
+      store,
+      {
+        LOG: () => {
+          throw new Error('sync failure');
+        },
+        SEARCH: async () => {
+          throw new Error('async failure');
+        },
+      },
+      { onError }
+    );
+
+    store.dispatch({ type: 'LOG', message: 'hi' });
+    store.dispatch({ type: 'SEARCH', query: 'a' });
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'sync failure' }), { type: 'LOG', message: 'hi' });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'async failure' }), { type: 'SEARCH', query: 'a' });
+  });
+
+  it('should abort running effects, ignore their errors and stop listening once stopped', async () => {
+    vi.useFakeTimers();
+    const store = createSearchStore();
+    const onError = vi.fn();
+    const run = vi.fn(async (_event: unknown, { signal, dispatch }: EffectContext<SearchState, SearchEvents>) => {
+      await wait(100, signal);
+      dispatch({ type: 'RESULTS', results: ['late'] });
+    });
+    const stop = runEffects(store, { SEARCH: run }, { onError });
+
+    store.dispatch({ type: 'SEARCH', query: 'a' });
+    stop();
+    store.dispatch({ type: 'SEARCH', query: 'b' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run.mock.calls[0][1].signal.aborted).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+    expect(store.getSnapshot().results).toEqual([]);
+  });
+});
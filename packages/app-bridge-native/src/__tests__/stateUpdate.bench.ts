@@ -0,0 +1,50 @@
+import { bench, describe } from 'vitest';
+import type { BridgeStores, State, Store } from '@open-game-system/app-bridge-types';
+import { createNativeBridge, createStore } from '../index';
+
+interface BoardState extends State {
+  cells: { id: number; owner: string | null; hp: number }[];
+}
+
+type BoardEvents = { type: 'HIT'; cell: number };
+
+type BenchStores = BridgeStores<{
+  board: { state: BoardState; events: BoardEvents };
+}>;
+
+const createBoardStore = () =>
+  createStore<BoardState, BoardEvents>({
+    initialState: {
+      cells: Array.from({ length: 10000 }, (_, id) => ({ id, owner: null, hp: 100 })),
+    },
+    producer: (draft, event) => {
+      draft.cells[event.cell].hp -= 1;
+    },
+  });
+
+// Hides the store's patches from the bridge so every update is diffed with compare
+const withoutOperations = (store: Store<BoardState, BoardEvents>): Store<BoardState, BoardEvents> => ({
+  ...store,
+  subscribe: (listener) => store.subscribe((state) => listener(state)),
+});
+
+const setup = (store: Store<BoardState, BoardEvents>) => {
+  const bridge = createNativeBridge<BenchStores>();
+  bridge.registerWebView({ postMessage: () => {} });
+  bridge.setStore('board', store);
+  let cell = 0;
+  return () => store.dispatch({ type: 'HIT', cell: cell++ % 10000 });
+};
+
+describe('STATE_UPDATE for a 10,000 cell board', () => {
+  const dispatchWithPatches = setup(createBoardStore());
+  const dispatchWithCompare = setup(withoutOperations(createBoardStore()));
+
+  bench('immer patches', () => {
+    dispatchWithPatches();
+  });
+
+  bench('fast-json-patch compare', () => {
+    dispatchWithCompare();
+  });
+});
@@ -1,6 +1,18 @@
-import type { NativeBridge, BridgeStores, State } from "@open-game-system/app-bridge-types";
+import type {
+  NativeBridge,
+  BridgeStores,
+  Transport,
+  HistoryEvent,
+  State,
+  Store,
+} from "@open-game-system/app-bridge-types";
+import {
+  BridgeProtocolError,
+  BRIDGE_PROTOCOL_VERSION,
+  UNDO_EVENT_TYPE,
+} from "@open-game-system/app-bridge-types";
 import { beforeEach, describe, expect, test, vi } from "vitest";
-import { createNativeBridge, createStore, WebView } from "./index";
+import { createNativeBridge, createStore, StateBatching, WebView } from "./index";
 
 // Base state type with discriminator
 interface CounterState extends State {
@@ -18,8 +30,17 @@ type TestStores = BridgeStores<{
     state: CounterState;
     events: CounterEvents;
   };
+  match: {
+    state: CounterState;
+    events: CounterEvents;
+  };
 }>;
 
+type TestMethods = {
+  double: { params: { value: number }; result: number };
+  fail: { params: null; result: void };
+};
+
 // Create a mock WebView implementation for testing
 class MockWebView implements WebView {
   public onMessage: (event: { nativeEvent: { data: string } }) => void =
@@ -35,13 +56,29 @@ class MockWebView implements WebView {
   }
 }
 
+// Two connected transports delivering messages asynchronously, like app-bridge-web's in-memory pair
+const createTransportPair = (): [Transport, Transport] => {
+  const listeners = [new Set<(message: string) => void>(), new Set<(message: string) => void>()];
+  const createEnd = (own: number): Transport => ({
+    send: (message) => {
+      queueMicrotask(() => listeners[1 - own].forEach((listener) => listener(message)));
+    },
+    onMessage: (listener) => {
+      listeners[own].add(listener);
+      return () => listeners[own].delete(listener);
+    },
+    close: () => listeners.forEach((set) => set.clear()),
+  });
+  return [createEnd(0), createEnd(1)];
+};
+
 describe("NativeBridge", () => {
-  let bridge: NativeBridge<TestStores>;
+  let bridge: NativeBridge<TestStores, TestMethods>;
   let mockWebView: MockWebView;
 
   beforeEach(() => {
     mockWebView = new MockWebView();
-    bridge = createNativeBridge<TestStores>();
+    bridge = createNativeBridge<TestStores, TestMethods>();
 
     // Create and register a store
     const store = createStore({
@@ -81,7 +118,9 @@ describe("NativeBridge", () => {
       const snapshot = store?.getSnapshot();
       expect(snapshot).toBeDefined();
       expect(snapshot?.value).toBe(1);
-      expect(listener).toHaveBeenCalledWith({ value: 1 });
+      expect(listener).toHaveBeenCalledWith({ value: 1 }, [
+        { op: "replace", path: "/value", value: 1 },
+      ]);
     });
 
     test("notifies store availability subscribers", () => {
@@ -114,6 +153,594 @@ describe("NativeBridge", () => {
     });
   });
 
+  describe("WebView Store Scoping", () => {
+    const storeKeysSeen = (webView: MockWebView) =>
+      webView.messageQueue.map((m) => JSON.parse(m)).map((m) => m.storeKey);
+
+    beforeEach(() => {
+      bridge.setStore(
+        "match",
+        createStore<CounterState, CounterEvents>({
+          initialState: { value: 100 },
+          producer: (draft, event) => {
+            if (event.type === "INCREMENT") draft.value += 1;
+          },
+        })
+      );
+    });
+
+    test("only sends the stores a WebView is registered for", () => {
+      const lobby = new MockWebView();
+      const game = new MockWebView();
+
+      bridge.registerWebView(lobby, { stores: ["counter"] });
+      bridge.registerWebView(game, { stores: (key) => key === "match" });
+
+      expect(storeKeysSeen(lobby)).toEqual(["counter"]);
+      expect(storeKeysSeen(game)).toEqual(["match"]);
+
+      bridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+      bridge.getStore("match")?.dispatch({ type: "INCREMENT" });
+
+      expect(storeKeysSeen(lobby)).toEqual(["counter", "counter"]);
+      expect(storeKeysSeen(game)).toEqual(["match", "match"]);
+    });
+
+    test("scopes the initial state sent after BRIDGE_READY", () => {
+      const lobby = new MockWebView();
+      bridge.registerWebView(lobby, { stores: ["counter"] });
+      lobby.messageQueue = [];
+
+      bridge.handleWebMessage(JSON.stringify({ type: "BRIDGE_READY" }));
+
+      expect(storeKeysSeen(lobby).filter(Boolean)).toEqual(["counter"]);
+    });
+
+    test("rejects events a WebView sends to a store outside its scope", () => {
+      const lobby = new MockWebView();
+      bridge.registerWebView(lobby, { stores: ["counter"] });
+      lobby.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "match", event: { type: "INCREMENT" }, id: "e1" }),
+        lobby
+      );
+
+      expect(bridge.getStore("match")?.getSnapshot()).toEqual({ value: 100 });
+      expect(JSON.parse(lobby.messageQueue[0])).toMatchObject({
+        type: "EVENT_ACK",
+        id: "e1",
+        storeKey: "match",
+        status: "rejected",
+      });
+    });
+
+    test("ignores events without a source WebView once WebViews are scoped", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const lobby = new MockWebView();
+      const game = new MockWebView();
+      bridge.registerWebView(lobby, { stores: ["counter"] });
+      bridge.registerWebView(game, { stores: ["match"] });
+      lobby.messageQueue = [];
+      game.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "match", event: { type: "INCREMENT" }, id: "e1" })
+      );
+
+      expect(bridge.getStore("match")?.getSnapshot()).toEqual({ value: 100 });
+      expect(lobby.messageQueue).toEqual([]);
+      expect(game.messageQueue).toEqual([]);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    test("ignores calls and resync requests without a source WebView once WebViews are scoped", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const handler = vi.fn(({ value }: { value: number }) => value * 2);
+      bridge.handle("double", handler);
+      const lobby = new MockWebView();
+      const game = new MockWebView();
+      bridge.registerWebView(lobby, { stores: ["counter"] });
+      bridge.registerWebView(game, { stores: ["match"] });
+      lobby.messageQueue = [];
+      game.messageQueue = [];
+
+      bridge.handleWebMessage(JSON.stringify({ type: "CALL", id: "call-1", method: "double", params: { value: 2 } }));
+      bridge.handleWebMessage(JSON.stringify({ type: "RESYNC_REQUEST", storeKey: "match" }));
+      await Promise.resolve();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(lobby.messageQueue).toEqual([]);
+      expect(game.messageQueue).toEqual([]);
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+  });
+
+  describe("Message Source", () => {
+    test("only marks the WebView that sent BRIDGE_READY as ready", () => {
+      const webView1 = new MockWebView();
+      const webView2 = new MockWebView();
+      bridge.registerWebView(webView1);
+      bridge.registerWebView(webView2);
+      webView1.messageQueue = [];
+      webView2.messageQueue = [];
+
+      bridge.handleWebMessage(JSON.stringify({ type: "BRIDGE_READY" }), webView1);
+
+      expect(bridge.getReadyState(webView1)).toBe(true);
+      expect(bridge.getReadyState(webView2)).toBe(false);
+      expect(webView1.messageQueue.length).toBeGreaterThan(0);
+      expect(webView2.messageQueue).toEqual([]);
+    });
+
+    test("sends responses only to the WebView that made the request", async () => {
+      const webView1 = new MockWebView();
+      const webView2 = new MockWebView();
+      bridge.registerWebView(webView1);
+      bridge.registerWebView(webView2);
+      bridge.handle("double", ({ value }) => value * 2);
+      webView1.messageQueue = [];
+      webView2.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "CALL", id: "c1", method: "double", params: { value: 2 } }),
+        webView2
+      );
+      await vi.waitFor(() => expect(webView2.messageQueue).toHaveLength(1));
+
+      expect(webView1.messageQueue).toEqual([]);
+      expect(JSON.parse(webView2.messageQueue[0])).toEqual({ type: "CALL_RESULT", id: "c1", result: 4 });
+    });
+
+    test("passes the sending WebView in the event metadata", () => {
+      const webView = new MockWebView();
+      bridge.registerWebView(webView, { id: "lobby" });
+      const listener = vi.fn();
+      bridge.getStore("counter")?.on("INCREMENT", listener);
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" }, id: "e1" }),
+        webView
+      );
+
+      expect(listener).toHaveBeenCalledWith(
+        { type: "INCREMENT" },
+        bridge.getStore("counter"),
+        { source: "webview", webViewId: "lobby", timestamp: expect.any(Number), correlationId: "e1" }
+      );
+    });
+
+    test("generates an id for WebViews registered without one", () => {
+      const webView = new MockWebView();
+      bridge.registerWebView(webView);
+      const listener = vi.fn();
+      bridge.getStore("counter")?.on("INCREMENT", listener);
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" } }),
+        webView
+      );
+
+      expect(listener.mock.calls[0][2]).toMatchObject({
+        source: "webview",
+        webViewId: expect.any(String),
+      });
+    });
+
+    test("ignores messages from WebViews that are not registered", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const stranger = new MockWebView();
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" } }),
+        stranger
+      );
+
+      expect(bridge.getStore("counter")?.getSnapshot()).toEqual({ value: 0 });
+      expect(stranger.messageQueue).toEqual([]);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe("Persisted Stores", () => {
+    test("publishes a store once it finished loading its persisted state", async () => {
+      const webView = new MockWebView();
+      bridge.registerWebView(webView);
+      webView.messageQueue = [];
+      const store = createStore<CounterState, CounterEvents>({
+        initialState: { value: 0 },
+        persist: {
+          key: "match",
+          storage: {
+            getItem: async () => JSON.stringify({ version: 0, state: { value: 12 } }),
+            setItem: () => {},
+          },
+        },
+      });
+
+      bridge.setStore("match", store);
+      expect(bridge.getStore("match")).toBeUndefined();
+      expect(webView.messageQueue).toEqual([]);
+
+      await store.whenHydrated?.();
+
+      expect(bridge.getStore("match")).toBe(store);
+      expect(JSON.parse(webView.messageQueue[0])).toMatchObject({
+        type: "STATE_INIT",
+        storeKey: "match",
+        data: { value: 12 },
+      });
+    });
+
+    test("advertises the schema version of a store in STATE_INIT", () => {
+      const webView = new MockWebView();
+      bridge.registerWebView(webView);
+      webView.messageQueue = [];
+
+      bridge.setStore(
+        "match",
+        createStore<CounterState, CounterEvents>({ initialState: { value: 0 }, schemaVersion: 4 })
+      );
+
+      expect(JSON.parse(webView.messageQueue[0])).toMatchObject({
+        type: "STATE_INIT",
+        storeKey: "match",
+        schemaVersion: 4,
+      });
+    });
+
+    test("does not publish a hydrating store that was replaced", async () => {
+      const store = createStore<CounterState, CounterEvents>({
+        initialState: { value: 0 },
+        persist: { key: "match", storage: { getItem: async () => null, setItem: () => {} } },
+      });
+
+      bridge.setStore("match", store);
+      bridge.setStore("match", undefined);
+      await store.whenHydrated?.();
+
+      expect(bridge.getStore("match")).toBeUndefined();
+    });
+  });
+
+  describe("State Batching", () => {
+    const createCounter = (value = 0) =>
+      createStore<CounterState, CounterEvents>({
+        initialState: { value },
+        producer: (draft, event) => {
+          if (event.type === "INCREMENT") draft.value += 1;
+        },
+      });
+
+    const setup = (batch: StateBatching, capabilities: string[]) => {
+      const batchedBridge = createNativeBridge<TestStores, TestMethods>({ batch });
+      batchedBridge.setStore("counter", createCounter());
+      batchedBridge.setStore("match", createCounter(100));
+      const webView = new MockWebView();
+      batchedBridge.registerWebView(webView);
+      batchedBridge.handleWebMessage(
+        JSON.stringify({ type: "BRIDGE_READY", protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities }),
+        webView
+      );
+      webView.messageQueue = [];
+      return { batchedBridge, webView, messages: () => webView.messageQueue.map((m) => JSON.parse(m)) };
+    };
+
+    test("coalesces changes made in the same tick into one update", async () => {
+      const { batchedBridge, messages } = setup("microtask", []);
+      const store = batchedBridge.getStore("counter");
+      store?.dispatch({ type: "INCREMENT" });
+      store?.dispatch({ type: "INCREMENT" });
+
+      expect(messages()).toEqual([]);
+      await Promise.resolve();
+
+      expect(messages()).toEqual([
+        {
+          type: "STATE_UPDATE",
+          storeKey: "counter",
+          operations: [
+            { op: "replace", path: "/value", value: 1 },
+            { op: "replace", path: "/value", value: 2 },
+          ],
+          version: 1,
+        },
+      ]);
+    });
+
+    test("sends changes to several stores as one STATE_BATCH", async () => {
+      const { batchedBridge, messages } = setup("microtask", ["state-batch"]);
+      batchedBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+      batchedBridge.getStore("match")?.dispatch({ type: "INCREMENT" });
+      await Promise.resolve();
+
+      expect(messages()).toEqual([
+        {
+          type: "STATE_BATCH",
+          updates: [
+            { storeKey: "counter", operations: [{ op: "replace", path: "/value", value: 1 }], version: 1 },
+            { storeKey: "match", operations: [{ op: "replace", path: "/value", value: 101 }], version: 1 },
+          ],
+        },
+      ]);
+    });
+
+    test("sends separate updates to WebViews without the state-batch capability", async () => {
+      const { batchedBridge, messages } = setup("microtask", []);
+      batchedBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+      batchedBridge.getStore("match")?.dispatch({ type: "INCREMENT" });
+      await Promise.resolve();
+
+      expect(messages().map((m) => [m.type, m.storeKey])).toEqual([
+        ["STATE_UPDATE", "counter"],
+        ["STATE_UPDATE", "match"],
+      ]);
+    });
+
+    test("holds changes for at most maxLatency milliseconds", () => {
+      vi.useFakeTimers();
+      try {
+        const { batchedBridge, messages } = setup({ maxLatency: 50 }, []);
+        batchedBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+        vi.advanceTimersByTime(30);
+        batchedBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+        expect(messages()).toEqual([]);
+
+        vi.advanceTimersByTime(20);
+
+        expect(messages()).toHaveLength(1);
+        expect(messages()[0]).toMatchObject({ type: "STATE_UPDATE", version: 1 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test("acknowledges applied events after the batch carrying their change", async () => {
+      const { batchedBridge, webView, messages } = setup("microtask", []);
+      batchedBridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" }, id: "e1" }),
+        webView
+      );
+      expect(messages()).toEqual([]);
+
+      await Promise.resolve();
+
+      expect(messages().map((m) => [m.type, m.version])).toEqual([
+        ["STATE_UPDATE", 1],
+        ["EVENT_ACK", 1],
+      ]);
+    });
+
+    test("sends pending changes before the full state on RESYNC_REQUEST", () => {
+      const { batchedBridge, webView, messages } = setup("microtask", []);
+      batchedBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+
+      batchedBridge.handleWebMessage(JSON.stringify({ type: "RESYNC_REQUEST", storeKey: "counter" }), webView);
+
+      expect(messages().map((m) => [m.type, m.version])).toEqual([
+        ["STATE_UPDATE", 1],
+        ["STATE_INIT", 1],
+      ]);
+    });
+  });
+
+  describe("Transactions", () => {
+    const setup = () => {
+      const txBridge = createNativeBridge<TestStores, TestMethods>();
+      for (const key of ["counter", "match"] as const) {
+        txBridge.setStore(
+          key,
+          createStore<CounterState, CounterEvents>({
+            initialState: { value: 0 },
+            producer: (draft, event) => {
+              if (event.type === "INCREMENT") draft.value += 1;
+              if (event.type === "SET") {
+                if (event.value < 0) throw new Error("negative");
+                draft.value = event.value;
+              }
+            },
+          })
+        );
+      }
+      const webView = new MockWebView();
+      txBridge.registerWebView(webView);
+      txBridge.handleWebMessage(
+        JSON.stringify({ type: "BRIDGE_READY", protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: ["state-batch"] }),
+        webView
+      );
+      webView.messageQueue = [];
+      return { txBridge, messages: () => webView.messageQueue.map((m) => JSON.parse(m)) };
+    };
+
+    test("sends the final state of every store once, after the transaction", () => {
+      const { txBridge, messages } = setup();
+
+      txBridge.transaction(() => {
+        txBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+        txBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+        txBridge.getStore("match")?.dispatch({ type: "SET", value: 7 });
+        expect(messages()).toEqual([]);
+      });
+
+      expect(messages()).toEqual([
+        {
+          type: "STATE_BATCH",
+          updates: [
+            {
+              storeKey: "counter",
+              operations: [
+                { op: "replace", path: "/value", value: 1 },
+                { op: "replace", path: "/value", value: 2 },
+              ],
+              version: 1,
+            },
+            { storeKey: "match", operations: [{ op: "replace", path: "/value", value: 7 }], version: 1 },
+          ],
+        },
+      ]);
+    });
+
+    test("rolls back every store and sends nothing when a producer throws", () => {
+      const { txBridge, messages } = setup();
+
+      expect(() =>
+        txBridge.transaction(() => {
+          txBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+          txBridge.getStore("match")?.dispatch({ type: "SET", value: -1 });
+        })
+      ).toThrow("negative");
+
+      expect(txBridge.getStore("counter")?.getSnapshot()).toEqual({ value: 0 });
+      expect(txBridge.getStore("match")?.getSnapshot()).toEqual({ value: 0 });
+      expect(messages()).toEqual([]);
+    });
+  });
+
+  describe("Effects", () => {
+    test("aborts running effects when the store is removed", () => {
+      const signals: AbortSignal[] = [];
+      bridge.runEffects("counter", {
+        INCREMENT: (_event, { signal }) => {
+          signals.push(signal);
+          return new Promise<void>(() => {});
+        },
+      });
+
+      bridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+      expect(signals).toHaveLength(1);
+
+      bridge.setStore("counter", undefined);
+
+      expect(signals[0].aborted).toBe(true);
+    });
+
+    test("moves effects to a replacement store", () => {
+      const run = vi.fn();
+      bridge.runEffects("counter", { INCREMENT: run });
+      const previousStore = bridge.getStore("counter")!;
+      const replacement = createStore<CounterState, CounterEvents>({ initialState: { value: 0 } });
+
+      bridge.setStore("counter", replacement);
+      previousStore.dispatch({ type: "INCREMENT" });
+      replacement.dispatch({ type: "INCREMENT" });
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run.mock.calls[0][1].getState()).toBe(replacement.getSnapshot());
+    });
+  });
+
+  describe("Transports", () => {
+    const connectWeb = () => {
+      const [nativeEnd, webEnd] = createTransportPair();
+      const received: any[] = [];
+      webEnd.onMessage((message) => received.push(JSON.parse(message)));
+      const disconnect = bridge.connect(nativeEnd);
+      return { webEnd, received, disconnect };
+    };
+
+    test("syncs stores to a web bridge on the other end of a transport", async () => {
+      const { webEnd, received } = connectWeb();
+      webEnd.send(JSON.stringify({ type: "BRIDGE_READY", protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: [] }));
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(received.map((m) => m.type)).toEqual(["STATE_INIT", "BRIDGE_ACK", "STATE_INIT"]);
+
+      webEnd.send(JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" } }));
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(bridge.getStore("counter")?.getSnapshot()).toEqual({ value: 1 });
+      expect(received[received.length - 1]).toMatchObject({ type: "STATE_UPDATE", storeKey: "counter" });
+    });
+
+    test("stops syncing once disconnected", async () => {
+      const { webEnd, received, disconnect } = connectWeb();
+      await Promise.resolve();
+      received.length = 0;
+
+      disconnect();
+      bridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+      webEnd.send(JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" } }));
+      await Promise.resolve();
+
+      expect(received).toEqual([]);
+      expect(bridge.getStore("counter")?.getSnapshot()).toEqual({ value: 1 });
+    });
+  });
+
+  describe("Store Removal", () => {
+    const connect = (webView: MockWebView, capabilities: string[]) => {
+      bridge.registerWebView(webView);
+      bridge.handleWebMessage(
+        JSON.stringify({
+          type: "BRIDGE_READY",
+          protocolVersion: BRIDGE_PROTOCOL_VERSION,
+          capabilities,
+        })
+      );
+      webView.messageQueue = [];
+    };
+
+    test("announces removed stores to WebViews", () => {
+      connect(mockWebView, ["store-removal"]);
+
+      bridge.setStore("counter", undefined);
+
+      expect(mockWebView.messageQueue.map((m) => JSON.parse(m))).toEqual([
+        { type: "STORE_REMOVED", storeKey: "counter" },
+      ]);
+    });
+
+    test("falls back to an empty STATE_INIT for WebViews without store-removal", () => {
+      connect(mockWebView, []);
+
+      bridge.setStore("counter", undefined);
+
+      expect(mockWebView.messageQueue.map((m) => JSON.parse(m))).toEqual([
+        { type: "STATE_INIT", storeKey: "counter", data: null },
+      ]);
+    });
+
+    test("stops syncing a store once it is removed", () => {
+      const store = bridge.getStore("counter");
+      connect(mockWebView, ["store-removal"]);
+      bridge.setStore("counter", undefined);
+      mockWebView.messageQueue = [];
+
+      store?.dispatch({ type: "INCREMENT" });
+
+      expect(mockWebView.messageQueue).toHaveLength(0);
+    });
+
+    test("only syncs the latest store registered under a key", () => {
+      const oldStore = bridge.getStore("counter");
+      oldStore?.dispatch({ type: "INCREMENT" });
+      const newStore = createStore<CounterState, CounterEvents>({
+        initialState: { value: 10 },
+        producer: (draft, event) => {
+          if (event.type === "INCREMENT") draft.value += 1;
+        },
+      });
+      bridge.setStore("counter", newStore);
+      connect(mockWebView, ["store-removal"]);
+
+      oldStore?.dispatch({ type: "INCREMENT" });
+      newStore.dispatch({ type: "INCREMENT" });
+
+      expect(mockWebView.messageQueue.map((m) => JSON.parse(m))).toEqual([
+        {
+          type: "STATE_UPDATE",
+          storeKey: "counter",
+          operations: [{ op: "replace", path: "/value", value: 11 }],
+          version: 2,
+        },
+      ]);
+    });
+  });
+
   describe("WebView Integration", () => {
     test("handles WebView registration with null value", () => {
       const unsubscribe = bridge.registerWebView(null);
@@ -235,7 +862,498 @@ describe("NativeBridge", () => {
       const snapshot = store?.getSnapshot();
       expect(snapshot).toBeDefined();
       expect(snapshot?.value).toBe(1);
-      expect(listener).toHaveBeenCalledWith({ value: 1 });
+      expect(listener).toHaveBeenCalledWith({ value: 1 }, [
+        { op: "replace", path: "/value", value: 1 },
+      ]);
+    });
+
+    test("acknowledges BRIDGE_READY with the negotiated protocol", () => {
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({
+          type: "BRIDGE_READY",
+          protocolVersion: 99,
+          minProtocolVersion: 1,
+          capabilities: [],
+        })
+      );
+
+      const ack = JSON.parse(mockWebView.messageQueue[0]);
+      expect(ack).toEqual({
+        type: "BRIDGE_ACK",
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+        capabilities: [],
+      });
+      expect(bridge.getProtocol(mockWebView)).toEqual({
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+        capabilities: [],
+      });
+    });
+
+    test("downgrades to revision 1 for WebViews that send an empty BRIDGE_READY", () => {
+      bridge.registerWebView(mockWebView);
+
+      bridge.handleWebMessage(JSON.stringify({ type: "BRIDGE_READY" }));
+
+      expect(bridge.getProtocol(mockWebView)).toEqual({
+        protocolVersion: 1,
+        capabilities: [],
+      });
+      expect(bridge.getReadyState(mockWebView)).toBe(true);
+    });
+
+    test("only keeps capabilities supported by both sides", () => {
+      const onProtocolError = vi.fn();
+      const capableBridge = createNativeBridge<TestStores>({
+        capabilities: ["a", "b"],
+        onProtocolError,
+      });
+      capableBridge.registerWebView(mockWebView);
+
+      capableBridge.handleWebMessage(
+        JSON.stringify({
+          type: "BRIDGE_READY",
+          protocolVersion: BRIDGE_PROTOCOL_VERSION,
+          capabilities: ["b", "c"],
+        })
+      );
+
+      expect(capableBridge.getProtocol(mockWebView)?.capabilities).toEqual(["b"]);
+      expect(onProtocolError).not.toHaveBeenCalled();
+    });
+
+    test("refuses WebViews with an incompatible protocol revision", () => {
+      const onProtocolError = vi.fn();
+      const strictBridge = createNativeBridge<TestStores>({
+        minProtocolVersion: 2,
+        onProtocolError,
+      });
+      strictBridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+
+      strictBridge.handleWebMessage(JSON.stringify({ type: "BRIDGE_READY" }));
+
+      expect(strictBridge.getReadyState(mockWebView)).toBe(false);
+      expect(strictBridge.getProtocol(mockWebView)).toBeNull();
+      expect(mockWebView.messageQueue.map((m) => JSON.parse(m).type)).toEqual([
+        "BRIDGE_ERROR",
+      ]);
+      expect(onProtocolError).toHaveBeenCalledWith(
+        expect.any(BridgeProtocolError),
+        mockWebView
+      );
+    });
+
+    test("ignores refused WebViews until they send a compatible BRIDGE_READY", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const strictBridge = createNativeBridge<TestStores, TestMethods>({ minProtocolVersion: 2 });
+      strictBridge.setStore(
+        "counter",
+        createStore<CounterState, CounterEvents>({
+          initialState: { value: 0 },
+          producer: (draft, event) => {
+            if (event.type === "INCREMENT") draft.value += 1;
+          },
+        })
+      );
+      strictBridge.handle("double", ({ value }) => value * 2);
+      strictBridge.registerWebView(mockWebView);
+      strictBridge.handleWebMessage(JSON.stringify({ type: "BRIDGE_READY" }), mockWebView);
+      mockWebView.messageQueue = [];
+
+      strictBridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" }, id: "e1" }),
+        mockWebView
+      );
+      strictBridge.handleWebMessage(
+        JSON.stringify({ type: "CALL", id: "c1", method: "double", params: { value: 21 } }),
+        mockWebView
+      );
+      strictBridge.handleWebMessage(JSON.stringify({ type: "RESYNC_REQUEST", storeKey: "counter" }), mockWebView);
+      strictBridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+      await Promise.resolve();
+
+      expect(strictBridge.getStore("counter")?.getSnapshot()).toEqual({ value: 1 });
+      expect(mockWebView.messageQueue).toEqual([]);
+
+      strictBridge.handleWebMessage(
+        JSON.stringify({ type: "BRIDGE_READY", protocolVersion: BRIDGE_PROTOCOL_VERSION, minProtocolVersion: 2 }),
+        mockWebView
+      );
+
+      expect(mockWebView.messageQueue.map((m) => JSON.parse(m).type)).toEqual(["BRIDGE_ACK", "STATE_INIT"]);
+      warn.mockRestore();
+    });
+
+    test("answers CALL messages with the handler result", async () => {
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+      bridge.handle("double", async (params) => params.value * 2);
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "CALL", id: "call-1", method: "double", params: { value: 21 } })
+      );
+      await vi.waitFor(() => expect(mockWebView.messageQueue).toHaveLength(1));
+
+      expect(JSON.parse(mockWebView.messageQueue[0])).toEqual({
+        type: "CALL_RESULT",
+        id: "call-1",
+        result: 42,
+      });
+    });
+
+    test("serializes errors thrown by handlers", async () => {
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+      bridge.handle("fail", () => {
+        throw Object.assign(new Error("Nope"), { code: "DENIED" });
+      });
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "CALL", id: "call-2", method: "fail", params: null })
+      );
+      await vi.waitFor(() => expect(mockWebView.messageQueue).toHaveLength(1));
+
+      expect(JSON.parse(mockWebView.messageQueue[0])).toEqual({
+        type: "CALL_ERROR",
+        id: "call-2",
+        error: { name: "Error", message: "Nope", code: "DENIED" },
+      });
+    });
+
+    test("reports calls to methods without a handler", () => {
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+      const removeHandler = bridge.handle("double", (params) => params.value * 2);
+      removeHandler();
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "CALL", id: "call-3", method: "double", params: { value: 1 } })
+      );
+
+      const response = JSON.parse(mockWebView.messageQueue[0]);
+      expect(response.type).toBe("CALL_ERROR");
+      expect(response.error.code).toBe("METHOD_NOT_FOUND");
+    });
+
+    test("acknowledges applied events with the store version", () => {
+      bridge.registerWebView(mockWebView);
+      bridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({
+          type: "EVENT",
+          storeKey: "counter",
+          event: { type: "INCREMENT" },
+          id: "event-1",
+        })
+      );
+
+      const messages = mockWebView.messageQueue.map((m) => JSON.parse(m));
+      expect(messages.map((m) => m.type)).toEqual(["STATE_UPDATE", "EVENT_ACK"]);
+      expect(messages[1]).toEqual({
+        type: "EVENT_ACK",
+        id: "event-1",
+        storeKey: "counter",
+        status: "applied",
+        version: 2,
+      });
+    });
+
+    test("acknowledges events for unknown stores", () => {
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({
+          type: "EVENT",
+          storeKey: "missing",
+          event: { type: "INCREMENT" },
+          id: "event-2",
+        })
+      );
+
+      const ack = JSON.parse(mockWebView.messageQueue[0]);
+      expect(ack.status).toBe("unknown_store");
+    });
+
+    test("rejects events whose producer throws", () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+      bridge.setStore(
+        "counter",
+        createStore<CounterState, CounterEvents>({
+          initialState: { value: 0 },
+          producer: () => {
+            throw new Error("Broken producer");
+          },
+        })
+      );
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({
+          type: "EVENT",
+          storeKey: "counter",
+          event: { type: "INCREMENT" },
+          id: "event-3",
+        })
+      );
+
+      const ack = JSON.parse(mockWebView.messageQueue[0]);
+      expect(ack).toMatchObject({ status: "rejected", reason: "Broken producer" });
+      expect(bridge.getStore("counter")?.getSnapshot()).toEqual({ value: 0 });
+      consoleError.mockRestore();
+    });
+
+    test("rejects events whose producer throws even when the store handles the error", () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+      const storeOnError = vi.fn();
+      bridge.setStore(
+        "counter",
+        createStore<CounterState, CounterEvents>({
+          initialState: { value: 0 },
+          producer: () => {
+            throw new Error("Broken producer");
+          },
+          onError: storeOnError,
+        })
+      );
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" }, id: "event-6" })
+      );
+
+      expect(storeOnError).toHaveBeenCalledTimes(1);
+      const ack = JSON.parse(mockWebView.messageQueue[0]);
+      expect(ack).toMatchObject({ status: "rejected", reason: "Broken producer" });
+      consoleError.mockRestore();
+    });
+
+    test("reports producer errors to onError and the sending WebView", () => {
+      const onError = vi.fn();
+      const errorBridge = createNativeBridge<TestStores, TestMethods>({ onError });
+      errorBridge.setStore(
+        "counter",
+        createStore<CounterState, CounterEvents>({
+          initialState: { value: 0 },
+          producer: () => {
+            throw new Error("Broken producer");
+          },
+        })
+      );
+      errorBridge.registerWebView(mockWebView, { id: "game" });
+      errorBridge.handleWebMessage(
+        JSON.stringify({ type: "BRIDGE_READY", protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: ["event-ack", "event-error"] }),
+        mockWebView
+      );
+      mockWebView.messageQueue = [];
+
+      errorBridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "INCREMENT" }, id: "event-5" }),
+        mockWebView
+      );
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "Broken producer" }), {
+        storeKey: "counter",
+        event: { type: "INCREMENT" },
+        meta: expect.objectContaining({ source: "webview", webViewId: "game", correlationId: "event-5" }),
+      });
+      const messages = mockWebView.messageQueue.map((m) => JSON.parse(m));
+      expect(messages).toEqual([
+        {
+          type: "EVENT_ERROR",
+          storeKey: "counter",
+          event: { type: "INCREMENT" },
+          id: "event-5",
+          error: { name: "Error", message: "Broken producer" },
+        },
+        { type: "EVENT_ACK", id: "event-5", storeKey: "counter", status: "rejected", reason: "Broken producer" },
+      ]);
+    });
+
+    test("rejects events blocked by middleware", () => {
+      bridge.setStore(
+        "counter",
+        createStore<CounterState, CounterEvents>({
+          initialState: { value: 0 },
+          producer: (draft, event) => {
+            if (event.type === "DECREMENT") draft.value -= 1;
+          },
+          middleware: [() => (next) => (event, meta) => {
+            if (event.type !== "DECREMENT") next(event, meta);
+          }],
+        })
+      );
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "DECREMENT" }, id: "event-6" })
+      );
+
+      expect(JSON.parse(mockWebView.messageQueue[0])).toEqual({
+        type: "EVENT_ACK",
+        id: "event-6",
+        storeKey: "counter",
+        status: "rejected",
+        reason: "blocked by middleware",
+      });
+      expect(bridge.getStore("counter")?.getSnapshot()).toEqual({ value: 0 });
+    });
+
+    test("acknowledges events that fail validation as invalid", () => {
+      const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      bridge.setStore(
+        "counter",
+        createStore<CounterState, CounterEvents>({
+          initialState: { value: 0 },
+          producer: (draft, event) => {
+            if (event.type === "SET") draft.value = event.value;
+          },
+          validate: {
+            SET: (event) =>
+              typeof (event as { value?: unknown }).value === "number" || "value must be a number",
+          },
+        })
+      );
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "SET" }, id: "event-4" })
+      );
+
+      const ack = JSON.parse(mockWebView.messageQueue[0]);
+      expect(ack).toMatchObject({
+        id: "event-4",
+        status: "invalid",
+        issues: ["value must be a number"],
+      });
+      expect(bridge.getStore("counter")?.getSnapshot()).toEqual({ value: 0 });
+      consoleWarn.mockRestore();
+    });
+
+    test("reports events that fail validation with an EVENT_ERROR", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      bridge.setStore(
+        "counter",
+        createStore<CounterState, CounterEvents>({
+          initialState: { value: 0 },
+          producer: () => {},
+          validate: { SET: () => "value must be a number" },
+        })
+      );
+      bridge.registerWebView(mockWebView);
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "BRIDGE_READY", protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: ["event-error"] }),
+        mockWebView
+      );
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: "SET" }, id: "event-4" }),
+        mockWebView
+      );
+
+      expect(JSON.parse(mockWebView.messageQueue[0])).toEqual({
+        type: "EVENT_ERROR",
+        storeKey: "counter",
+        event: { type: "SET" },
+        id: "event-4",
+        error: {
+          name: "EventValidationError",
+          message: expect.any(String),
+          code: "INVALID_EVENT",
+          data: { issues: ["value must be a number"] },
+        },
+      });
+      vi.mocked(console.warn).mockRestore();
+    });
+
+    test("undoes changes when a WebView sends the built-in undo event", () => {
+      bridge.setStore(
+        "counter",
+        createStore<CounterState, CounterEvents | HistoryEvent>({
+          initialState: { value: 0 },
+          producer: (draft, event) => {
+            if (event.type === "INCREMENT") draft.value += 1;
+          },
+          history: true,
+        }) as Store<CounterState, CounterEvents>
+      );
+      bridge.registerWebView(mockWebView);
+      bridge.getStore("counter")?.dispatch({ type: "INCREMENT" });
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { type: UNDO_EVENT_TYPE } })
+      );
+
+      expect(bridge.getStore("counter")?.getSnapshot()).toEqual({ value: 0 });
+    });
+
+    test("acknowledges events without a string type as invalid", () => {
+      bridge.registerWebView(mockWebView);
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "EVENT", storeKey: "counter", event: { kind: "INCREMENT" }, id: "event-5" })
+      );
+
+      const ack = JSON.parse(mockWebView.messageQueue[0]);
+      expect(ack).toMatchObject({ id: "event-5", status: "invalid" });
+      expect(bridge.getStore("counter")?.getSnapshot()).toEqual({ value: 0 });
+    });
+
+    test("tags state messages with increasing versions", () => {
+      bridge.registerWebView(mockWebView);
+      const store = bridge.getStore("counter");
+      store?.dispatch({ type: "INCREMENT" });
+      store?.dispatch({ type: "INCREMENT" });
+
+      const messages = mockWebView.messageQueue.map((m) => JSON.parse(m));
+      expect(messages.map((m) => [m.type, m.version])).toEqual([
+        ["STATE_INIT", 0],
+        ["STATE_UPDATE", 1],
+        ["STATE_UPDATE", 2],
+      ]);
+    });
+
+    test("diffs the state when the store was reset", () => {
+      bridge.registerWebView(mockWebView);
+      const store = bridge.getStore("counter");
+      store?.dispatch({ type: "SET", value: 7 });
+      mockWebView.messageQueue = [];
+
+      store?.reset();
+
+      expect(JSON.parse(mockWebView.messageQueue[0])).toMatchObject({
+        type: "STATE_UPDATE",
+        operations: [{ op: "replace", path: "/value", value: 0 }],
+      });
+    });
+
+    test("resends the full state on RESYNC_REQUEST", () => {
+      bridge.registerWebView(mockWebView);
+      bridge.getStore("counter")?.dispatch({ type: "SET", value: 7 });
+      mockWebView.messageQueue = [];
+
+      bridge.handleWebMessage(
+        JSON.stringify({ type: "RESYNC_REQUEST", storeKey: "counter" })
+      );
+
+      expect(JSON.parse(mockWebView.messageQueue[0])).toEqual({
+        type: "STATE_INIT",
+        storeKey: "counter",
+        data: { value: 7 },
+        version: 1,
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+      });
     });
 
     test("tracks WebView ready state", () => {
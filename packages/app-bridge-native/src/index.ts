@@ -1,23 +1,212 @@
 import {
   State,
   Event,
+  EventMeta,
+  EventValidationError,
+  EventValidator,
   Store,
   CreateStore,
   StoreConfig,
   Producer,
   NativeBridge,
+  PersistOptions,
+  StateMigrations,
+  StoreHistory,
+  UNDO_EVENT_TYPE,
+  REDO_EVENT_TYPE,
   StoreOnConfig,
   WebView as BridgeWebView,
   WebToNativeMessage,
   NativeToWebMessage,
-  BridgeStores
+  BridgeStores,
+  BridgeMethods,
+  BridgeProtocolError,
+  BridgeProtocolInfo,
+  NegotiatedProtocol,
+  RegisterWebViewOptions,
+  negotiateProtocol,
+  serializeError,
+  SerializedError,
+  BRIDGE_PROTOCOL_VERSION,
+  MIN_BRIDGE_PROTOCOL_VERSION,
+  BRIDGE_CAPABILITIES,
+  Operation,
+  EffectContext,
+  EffectHandler,
+  EffectStrategy,
+  EffectsConfig,
+  RunEffectsOptions,
+  SelectOptions,
+  Transport,
+  shallowEqual,
+  subscribeWithSelector,
 } from "@open-game-system/app-bridge-types";
-import { produce } from "immer";
+import { applyPatches, enablePatches, produceWithPatches } from "immer";
+import type { Patch } from "immer";
 import { compare } from "fast-json-patch";
 
 // Re-export BridgeWebView as WebView for consistency within this package if needed
 export type WebView = BridgeWebView;
 
+// Producers run with patches so state changes can be forwarded without diffing
+enablePatches();
+
+// Whether middleware kept the last event dispatched to a store from reaching its
+// producer, so the bridge can reject it instead of acknowledging it as applied
+let lastDispatchBlocked = false;
+
+/**
+ * Converts immer patches to JSON Patch operations
+ */
+const toOperations = (patches: Patch[]): Operation[] =>
+  patches.map((patch) => {
+    const path =
+      "/" + patch.path.map((segment) => String(segment).replace(/~/g, "~0").replace(/\//g, "~1")).join("/");
+    return patch.op === "remove"
+      ? { op: "remove", path }
+      : { op: patch.op, path, value: patch.value };
+  });
+
+/**
+ * Runs a validator against an event, returning the issues found (empty when valid)
+ */
+const validateEvent = (validator: EventValidator, event: unknown): string[] => {
+  if (typeof validator === "function") {
+    const result = validator(event);
+    if (result === true) return [];
+    return [typeof result === "string" ? result : "Event failed validation"];
+  }
+  const result = validator["~standard"].validate(event);
+  if (result instanceof Promise) {
+    throw new TypeError("[Native Store] Async schemas are not supported for event validation");
+  }
+  return result.issues ? result.issues.map(issue => issue.message) : [];
+};
+
+/**
+ * Runs the migrations from one schema version up to another.
+ * Returns undefined when a step in between is missing.
+ */
+const runMigrations = (
+  migrations: StateMigrations,
+  state: unknown,
+  fromVersion: number,
+  toVersion: number
+): unknown => {
+  let migratedState = state;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const migration = migrations[version];
+    if (!migration) return undefined;
+    migratedState = migration(migratedState);
+  }
+  return migratedState;
+};
+
+/**
+ * Loads the persisted state of a store, migrating it when it was saved under another version.
+ * Resolves with undefined when nothing usable is stored.
+ */
+const readPersistedState = async <S extends State>(
+  options: PersistOptions<S>,
+  currentVersion: number,
+  migrations?: StateMigrations
+): Promise<S | undefined> => {
+  const raw = await options.storage.getItem(options.key);
+  if (raw === null || raw === undefined) return undefined;
+  const { version, state } = JSON.parse(raw) as { version: number; state: unknown };
+  if (version === currentVersion) return state as S;
+  if (options.migrate) return options.migrate(state, version);
+  if (migrations && version < currentVersion) {
+    const migratedState = runMigrations(migrations, state, version, currentVersion);
+    if (migratedState !== undefined) return migratedState as S;
+  }
+  console.warn(
+    `[Native Store] Discarding persisted state "${options.key}" saved with version ${version}, expected ${currentVersion}`
+  );
+  await options.storage.removeItem?.(options.key);
+  return undefined;
+};
+
+interface HistoryEntry {
+  patches: Patch[];
+  inversePatches: Patch[];
+}
+
+/**
+ * Undo and redo stacks of immer patches for a store.
+ * `applyChange` swaps in the state produced by undoing or redoing a change.
+ */
+const createStoreHistory = <S extends State>(
+  limit: number,
+  getState: () => S,
+  applyChange: (state: S, patches: Patch[]) => void
+): StoreHistory & { record: (patches: Patch[], inversePatches: Patch[]) => void } => {
+  const past: HistoryEntry[] = [];
+  const future: HistoryEntry[] = [];
+  // Changes recorded inside group() are merged into one entry
+  let groupDepth = 0;
+  let groupEntry: HistoryEntry | null = null;
+
+  const push = (entry: HistoryEntry) => {
+    past.push(entry);
+    if (past.length > limit) past.shift();
+  };
+
+  return {
+    record: (patches, inversePatches) => {
+      future.length = 0;
+      if (groupDepth > 0) {
+        groupEntry = groupEntry
+          ? {
+              patches: [...groupEntry.patches, ...patches],
+              inversePatches: [...inversePatches, ...groupEntry.inversePatches],
+            }
+          : { patches, inversePatches };
+        return;
+      }
+      push({ patches, inversePatches });
+    },
+
+    undo: () => {
+      const entry = past.pop();
+      if (!entry) return false;
+      future.push(entry);
+      applyChange(applyPatches(getState(), entry.inversePatches), entry.inversePatches);
+      return true;
+    },
+
+    redo: () => {
+      const entry = future.pop();
+      if (!entry) return false;
+      past.push(entry);
+      applyChange(applyPatches(getState(), entry.patches), entry.patches);
+      return true;
+    },
+
+    canUndo: () => past.length > 0,
+
+    canRedo: () => future.length > 0,
+
+    clear: () => {
+      past.length = 0;
+      future.length = 0;
+    },
+
+    group: (fn) => {
+      groupDepth++;
+      try {
+        fn();
+      } finally {
+        groupDepth--;
+        if (groupDepth === 0 && groupEntry) {
+          push(groupEntry);
+          groupEntry = null;
+        }
+      }
+    },
+  };
+};
+
 /**
  * Creates a new store with the given configuration according to Plan v4.
  */
@@ -28,21 +217,70 @@ export const createStore: CreateStore = <
   config: StoreConfig<S, E>
 ): Store<S, E> => {
   let currentState = config.initialState;
-  const stateListeners = new Set<(state: S) => void>();
-  const eventListeners = new Map<string, Set<(event: E, store: Store<S, E>) => Promise<void> | void>>();
+  const stateListeners = new Set<(state: S, operations?: Operation[]) => void>();
+  const eventListeners = new Map<string, Set<(event: E, store: Store<S, E>, meta: EventMeta) => Promise<void> | void>>();
 
   let storeInstance: Store<S, E>;
 
-  const notifyStateListeners = () => {
-    stateListeners.forEach(listener => listener(currentState));
+  const persistVersion = config.persist?.version ?? config.schemaVersion ?? 0;
+  let hydrated = !config.persist;
+  let hydration: Promise<void> = Promise.resolve();
+  let persistTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Debounced write of the current state, skipped until the persisted state was loaded
+  const schedulePersist = () => {
+    const persist = config.persist;
+    if (!persist || !hydrated) return;
+    clearTimeout(persistTimer);
+    persistTimer = setTimeout(() => {
+      const value = JSON.stringify({ version: persistVersion, state: currentState });
+      Promise.resolve()
+        .then(() => persist.storage.setItem(persist.key, value))
+        .catch(error => {
+          console.error(`[Native Store] Failed to persist state "${persist.key}":`, error);
+        });
+    }, persist.debounce ?? 100);
+  };
+
+  const notifyStateListeners = (operations?: Operation[]) => {
+    stateListeners.forEach(listener => listener(currentState, operations));
+    schedulePersist();
+  };
+
+  // Changes made inside `transaction`, notified together on commit
+  type Transaction = {
+    startState: S;
+    operations: Operation[];
+    patches: Patch[];
+    inversePatches: Patch[];
+    events: Array<[E, EventMeta]>;
+    replaced: boolean;
+    historyMoved: boolean;
   };
+  let activeTransaction = null as Transaction | null;
 
-  const notifyEventListeners = (eventType: E['type'], event: E) => {
+  const history = config.history
+    ? createStoreHistory<S>(
+        (typeof config.history === "object" ? config.history.limit : undefined) ?? 100,
+        () => currentState,
+        (state, patches) => {
+          currentState = state;
+          if (activeTransaction) {
+            activeTransaction.operations.push(...toOperations(patches));
+            activeTransaction.historyMoved = true;
+          } else {
+            notifyStateListeners(toOperations(patches));
+          }
+        }
+      )
+    : undefined;
+
+  const notifyEventListeners = (eventType: E['type'], event: E, meta: EventMeta) => {
     const listeners = eventListeners.get(eventType as string);
     if (listeners) {
       listeners.forEach(listener => {
           try {
-              const result = listener(event, storeInstance);
+              const result = listener(event, storeInstance, meta);
               if (result instanceof Promise) {
                   result.catch(error => {
                      console.error(`[Native Store] Unhandled promise rejection in async event listener for type "${eventType}":`, error);
@@ -55,29 +293,74 @@ export const createStore: CreateStore = <
     }
   };
 
-  storeInstance = {
-    getSnapshot: () => currentState,
+  // Counts events that made it through the middleware chain
+  let appliedEvents = 0;
 
-    dispatch: (event: E): void => {
-      let stateChanged = false;
-      if (config.producer) {
-        const nextState = produce(currentState, (draft: S) => {
+  // Runs the producer and listeners, the end of the middleware chain
+  const applyEvent = (event: E, eventMeta: EventMeta): void => {
+    appliedEvents++;
+    if (history && (event.type === UNDO_EVENT_TYPE || event.type === REDO_EVENT_TYPE)) {
+      if (event.type === UNDO_EVENT_TYPE) history.undo();
+      else history.redo();
+      return;
+    }
+
+    if (config.producer) {
+      let nextState: S;
+      let patches: Patch[];
+      let inversePatches: Patch[];
+      try {
+        [nextState, patches, inversePatches] = produceWithPatches(currentState, (draft: S) => {
           config.producer!(draft, event);
         });
-        if (nextState !== currentState) {
-            currentState = nextState;
-            stateChanged = true;
-        }
+      } catch (error) {
+        // The draft is discarded, so the state is left untouched
+        config.onError?.(error, event, eventMeta);
+        throw error;
       }
-
-      if (stateChanged) {
-        notifyStateListeners();
+      if (nextState !== currentState) {
+          currentState = nextState;
+          if (activeTransaction) {
+            activeTransaction.operations.push(...toOperations(patches));
+            activeTransaction.patches.push(...patches);
+            activeTransaction.inversePatches.unshift(...inversePatches);
+          } else {
+            history?.record(patches, inversePatches);
+            notifyStateListeners(toOperations(patches));
+          }
       }
+    }
+
+    if (activeTransaction) {
+      activeTransaction.events.push([event, eventMeta]);
+      return;
+    }
+    notifyEventListeners(event.type as E['type'], event, eventMeta);
+  };
 
-      notifyEventListeners(event.type as E['type'], event);
+  let dispatchThroughMiddleware = applyEvent;
+
+  storeInstance = {
+    getSnapshot: () => currentState,
+
+    dispatch: (event: E, meta?: Partial<EventMeta>): void => {
+      const validator = config.validate?.[event.type as E['type']];
+      if (validator) {
+        const issues = validateEvent(validator, event);
+        if (issues.length > 0) {
+          throw new EventValidationError(`Invalid "${event.type}" event: ${issues.join("; ")}`, {
+            eventType: event.type,
+            issues,
+          });
+        }
+      }
+      const eventMeta: EventMeta = { source: "native", timestamp: Date.now(), ...meta };
+      const appliedBefore = appliedEvents;
+      dispatchThroughMiddleware(event, eventMeta);
+      lastDispatchBlocked = appliedEvents === appliedBefore;
     },
 
-    subscribe: (listener: (state: S) => void) => {
+    subscribe: (listener: (state: S, operations?: Operation[]) => void) => {
       stateListeners.add(listener);
       listener(currentState);
       return () => {
@@ -85,16 +368,22 @@ export const createStore: CreateStore = <
       };
     },
 
+    select: <T>(
+      selector: (state: S) => T,
+      listener: (selected: T, previous: T) => void,
+      options?: SelectOptions<T>
+    ) => subscribeWithSelector(storeInstance, selector, listener, options),
+
     on: <EventType extends E['type']>(
       eventType: EventType,
-      listener: (event: Extract<E, { type: EventType }>, store: Store<S, E>) => Promise<void> | void
+      listener: (event: Extract<E, { type: EventType }>, store: Store<S, E>, meta: EventMeta) => Promise<void> | void
     ): (() => void) => {
        const eventTypeStr = eventType as string;
       if (!eventListeners.has(eventTypeStr)) {
         eventListeners.set(eventTypeStr, new Set());
       }
       const listeners = eventListeners.get(eventTypeStr)!;
-      const typedListener = listener as (event: E, store: Store<S, E>) => Promise<void> | void;
+      const typedListener = listener as (event: E, store: Store<S, E>, meta: EventMeta) => Promise<void> | void;
       listeners.add(typedListener);
 
       return () => {
@@ -107,10 +396,95 @@ export const createStore: CreateStore = <
 
     reset: () => {
       currentState = config.initialState;
+      if (activeTransaction) {
+        activeTransaction.replaced = true;
+        return;
+      }
+      history?.clear();
       notifyStateListeners();
-    }
+    },
+
+    transaction: (fn: () => void) => {
+      // Nested transactions join the outer one
+      if (activeTransaction) {
+        fn();
+        return;
+      }
+
+      const transaction: Transaction = {
+        startState: currentState,
+        operations: [],
+        patches: [],
+        inversePatches: [],
+        events: [],
+        replaced: false,
+        historyMoved: false,
+      };
+      activeTransaction = transaction;
+      try {
+        fn();
+      } catch (error) {
+        activeTransaction = null;
+        currentState = transaction.startState;
+        // Undo/redo moved the history stacks, which no longer match the restored state
+        if (transaction.historyMoved) history?.clear();
+        throw error;
+      }
+      activeTransaction = null;
+
+      if (transaction.replaced) {
+        history?.clear();
+        notifyStateListeners();
+      } else if (currentState !== transaction.startState) {
+        if (transaction.patches.length > 0) {
+          history?.record(transaction.patches, transaction.inversePatches);
+        }
+        notifyStateListeners(transaction.operations);
+      }
+      transaction.events.forEach(([event, meta]) => notifyEventListeners(event.type as E['type'], event, meta));
+    },
+
+    isHydrated: () => hydrated,
+
+    whenHydrated: () => hydration,
+
+    getSchemaVersion: () => config.schemaVersion,
+
+    history: history && {
+      undo: history.undo,
+      redo: history.redo,
+      canUndo: history.canUndo,
+      canRedo: history.canRedo,
+      clear: history.clear,
+      group: history.group,
+    },
   };
 
+  if (config.persist) {
+    const persist = config.persist;
+    // Persisted state replaces whatever was dispatched before it finished loading
+    hydration = readPersistedState(persist, persistVersion, config.migrations)
+      .catch((error) => {
+        console.error(`[Native Store] Failed to load persisted state "${persist.key}":`, error);
+        return undefined;
+      })
+      .then((persistedState) => {
+        hydrated = true;
+        if (persistedState !== undefined) {
+          currentState = persistedState;
+          history?.clear();
+          notifyStateListeners();
+        }
+      });
+  }
+
+  if (config.middleware) {
+    dispatchThroughMiddleware = config.middleware.reduceRight(
+      (next, middleware) => middleware(storeInstance)(next),
+      applyEvent
+    );
+  }
+
   if (config.on) {
     for (const eventType in config.on) {
        if (Object.prototype.hasOwnProperty.call(config.on, eventType)) {
@@ -125,15 +499,280 @@ export const createStore: CreateStore = <
   return storeInstance;
 };
 
+type SourceStates<TSources extends readonly Store<any, any>[]> = {
+  [K in keyof TSources]: TSources[K] extends Store<infer S, any> ? S : never;
+};
+
+/**
+ * Configuration of a store computed from other stores
+ */
+export interface DerivedStoreConfig<S extends State, TSources extends readonly Store<any, any>[]> {
+  sources: [...TSources];
+  compute: (...states: SourceStates<TSources>) => S;
+  equals?: (previous: S, next: S) => boolean; // Whether a recomputed value is unchanged, defaults to shallowEqual
+}
+
+/**
+ * Creates a read-only store whose state is computed from other stores.
+ * The value is only recomputed when a source state changes, and subscribers are only
+ * notified when it differs from the previous value. Sources are subscribed to while
+ * the derived store has subscribers. It can be passed to `bridge.setStore` like any store.
+ */
+export const createDerivedStore = <
+  S extends State,
+  TSources extends readonly Store<any, any>[],
+  E extends Event = never
+>(
+  config: DerivedStoreConfig<S, TSources>
+): Store<S, E> => {
+  const equals = config.equals ?? shallowEqual;
+  const stateListeners = new Set<(state: S, operations?: Operation[]) => void>();
+  let sourceSubscriptions: (() => void)[] = [];
+  let sourceStates: unknown[] | undefined;
+  let currentState: S | undefined;
+
+  // Recompute when a source state changed, keeping the previous value when equal
+  const read = (): S => {
+    const states = config.sources.map(source => source.getSnapshot());
+    if (sourceStates && states.every((state, index) => state === sourceStates![index])) {
+      return currentState!;
+    }
+    sourceStates = states;
+    const nextState = config.compute(...(states as SourceStates<TSources>));
+    if (currentState === undefined || !equals(currentState, nextState)) {
+      currentState = nextState;
+    }
+    return currentState;
+  };
+
+  const handleSourceChange = () => {
+    const previousState = currentState;
+    const nextState = read();
+    if (nextState !== previousState) {
+      stateListeners.forEach(listener => listener(nextState));
+    }
+  };
+
+  const storeInstance: Store<S, E> = {
+    getSnapshot: read,
+
+    dispatch: (event: E) => {
+      throw new Error(`Cannot dispatch "${event.type}": derived stores are read-only`);
+    },
+
+    subscribe: (listener: (state: S, operations?: Operation[]) => void) => {
+      if (stateListeners.size === 0) {
+        read();
+        sourceSubscriptions = config.sources.map(source => source.subscribe(handleSourceChange));
+      }
+      stateListeners.add(listener);
+      listener(read());
+      return () => {
+        stateListeners.delete(listener);
+        if (stateListeners.size === 0) {
+          sourceSubscriptions.forEach(unsubscribe => unsubscribe());
+          sourceSubscriptions = [];
+        }
+      };
+    },
+
+    select: <T>(
+      selector: (state: S) => T,
+      listener: (selected: T, previous: T) => void,
+      options?: SelectOptions<T>
+    ) => subscribeWithSelector(storeInstance, selector, listener, options),
+
+    on: (eventType) => {
+      console.warn(`[Native Store] store.on("${eventType}", ...) was called on a derived store, which never receives events.`);
+      return () => {};
+    },
+
+    reset: () => {
+      // Derived state has nothing of its own to reset
+    },
+
+    isHydrated: () => config.sources.every(source => source.isHydrated?.() ?? true),
+
+    whenHydrated: () =>
+      Promise.all(config.sources.map(source => source.whenHydrated?.())).then(() => undefined),
+  };
+
+  return storeInstance;
+};
+
+/**
+ * Runs effects for the events of a store, built on `store.on`.
+ * Each run receives an AbortSignal that is aborted when a newer event supersedes it
+ * (for "latest" and debounced effects) or when the effects are stopped.
+ * Returns a function that stops listening and aborts every running effect.
+ */
+export const runEffects = <S extends State, E extends Event>(
+  store: Store<S, E>,
+  effects: EffectsConfig<S, E>,
+  options: RunEffectsOptions<E> = {}
+): (() => void) => {
+  const running = new Set<AbortController>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const unsubscribers: (() => void)[] = [];
+
+  const reportError = (error: unknown, event: E) => {
+    if (options.onError) {
+      options.onError(error, event);
+    } else {
+      console.error(`[Native Effects] Effect for "${event.type}" failed:`, error);
+    }
+  };
+
+  const start = (run: EffectHandler<S, E>, event: E, meta: EventMeta): AbortController => {
+    const controller = new AbortController();
+    running.add(controller);
+    const settle = () => running.delete(controller);
+    const fail = (error: unknown) => {
+      settle();
+      // Aborted runs commonly reject with an AbortError, which is expected
+      if (!controller.signal.aborted) reportError(error, event);
+    };
+    const context: EffectContext<S, E> = {
+      signal: controller.signal,
+      dispatch: (followUp: E) => {
+        if (!controller.signal.aborted) store.dispatch(followUp);
+      },
+      getState: () => store.getSnapshot(),
+      meta,
+    };
+    try {
+      Promise.resolve(run(event as Extract<E, { type: E['type'] }>, context)).then(settle, fail);
+    } catch (error) {
+      fail(error);
+    }
+    return controller;
+  };
+
+  for (const eventType in effects) {
+    if (!Object.prototype.hasOwnProperty.call(effects, eventType)) continue;
+    const effect = effects[eventType as E['type']];
+    if (!effect) continue;
+    const { strategy, run } =
+      typeof effect === "function"
+        ? { strategy: "every" as EffectStrategy, run: effect as EffectHandler<S, E> }
+        : { strategy: effect.strategy, run: effect.run as EffectHandler<S, E> };
+
+    let latest: AbortController | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const startLatest = (event: E, meta: EventMeta) => {
+      latest?.abort();
+      latest = start(run, event, meta);
+    };
+
+    unsubscribers.push(
+      store.on(eventType as E['type'], (event, _store, meta) => {
+        if (strategy === "every") {
+          start(run, event, meta);
+        } else if (strategy === "latest") {
+          startLatest(event, meta);
+        } else {
+          if (timer !== undefined) {
+            clearTimeout(timer);
+            timers.delete(timer);
+          }
+          const pending = setTimeout(() => {
+            timers.delete(pending);
+            timer = undefined;
+            startLatest(event, meta);
+          }, strategy.debounce);
+          timer = pending;
+          timers.add(pending);
+        }
+      })
+    );
+  }
+
+  return () => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    timers.forEach(pending => clearTimeout(pending));
+    timers.clear();
+    running.forEach(controller => controller.abort());
+    running.clear();
+  };
+};
+
+/**
+ * Options for creating a native bridge
+ */
+export interface NativeBridgeOptions {
+  /**
+   * Protocol revision advertised to WebViews (defaults to BRIDGE_PROTOCOL_VERSION)
+   */
+  protocolVersion?: number;
+  /**
+   * Oldest protocol revision accepted from WebViews (defaults to MIN_BRIDGE_PROTOCOL_VERSION)
+   */
+  minProtocolVersion?: number;
+  /**
+   * Capabilities advertised to WebViews (defaults to BRIDGE_CAPABILITIES)
+   */
+  capabilities?: string[];
+  /**
+   * Called when a WebView announces a protocol revision the bridge cannot speak.
+   * The WebView is sent a BRIDGE_ERROR and is not marked ready.
+   */
+  onProtocolError?: (error: BridgeProtocolError, webView: BridgeWebView) => void;
+  /**
+   * Coalesce state changes into fewer messages instead of sending one STATE_UPDATE per change:
+   * - "microtask": changes made in the same tick
+   * - "frame": changes made within one animation frame
+   * - { maxLatency }: changes made within the given milliseconds
+   * Acknowledgements of applied events are sent after the batch containing their change.
+   */
+  batch?: StateBatching;
+  /**
+   * Called when an event sent by a WebView fails while being applied, e.g. because
+   * the store's producer threw. The WebView is sent an EVENT_ERROR.
+   */
+  onError?: (error: unknown, context: { storeKey: string; event: Event; meta: EventMeta }) => void;
+}
+
+export type StateBatching = "microtask" | "frame" | { maxLatency: number };
+
 /**
  * Creates a native bridge instance using the BridgeWebView type from types package.
  */
-export function createNativeBridge<TStores extends BridgeStores>(): NativeBridge<TStores> {
+export function createNativeBridge<
+  TStores extends BridgeStores,
+  TMethods extends BridgeMethods = BridgeMethods
+>(
+  options: NativeBridgeOptions = {}
+): NativeBridge<TStores, TMethods> {
+  const protocol: BridgeProtocolInfo = {
+    protocolVersion: options.protocolVersion ?? BRIDGE_PROTOCOL_VERSION,
+    minProtocolVersion: options.minProtocolVersion ?? MIN_BRIDGE_PROTOCOL_VERSION,
+    capabilities: options.capabilities ?? [...BRIDGE_CAPABILITIES],
+  };
   const stores = new Map<keyof TStores, Store<TStores[keyof TStores]["state"], TStores[keyof TStores]["events"]>>();
   const webViews = new Set<BridgeWebView>();
   const readyWebViews = new Set<BridgeWebView>();
+  const negotiatedProtocols = new Map<BridgeWebView, NegotiatedProtocol>();
+  // WebViews whose handshake was refused until they send a compatible BRIDGE_READY
+  const refusedWebViews = new Set<BridgeWebView>();
+  const webViewScopes = new Map<BridgeWebView, (storeKey: keyof TStores) => boolean>();
+  // Reported as webViewId in the metadata of bridged events
+  const webViewIds = new Map<BridgeWebView, string>();
+  let nextWebViewId = 1;
   const readyStateListeners = new Map<BridgeWebView, Set<(isReady: boolean) => void>>();
   const storeListeners = new Set<() => void>();
+  const methodHandlers = new Map<string, (params: unknown) => unknown>();
+  // Unsubscribe functions for the state subscription of each registered store
+  const storeSubscriptions = new Map<keyof TStores, () => void>();
+  // Incremented with every STATE_UPDATE of a store, reported in STATE_INIT and EVENT_ACK
+  const storeVersions = new Map<keyof TStores, number>();
+  // Stores passed to setStore that are still loading their persisted state
+  const hydratingStores = new Map<keyof TStores, Store<any, any>>();
+  // Changes waiting for the next batch, by store in the order they changed
+  const pendingUpdates = new Map<keyof TStores, Operation[]>();
+  const afterFlushCallbacks: (() => void)[] = [];
+  let flushScheduled = false;
+  // Nesting depth of bridge.transaction, flushing waits until the outermost one ends
+  let transactionDepth = 0;
 
   const notifyStoreListeners = () => {
     storeListeners.forEach(listener => listener());
@@ -146,9 +785,22 @@ export function createNativeBridge<TStores extends BridgeStores>(): NativeBridge
     }
   };
 
+  /**
+   * Whether a WebView was registered with access to a store
+   * Refused WebViews have access to no store, so they receive no state.
+   */
+  const canAccessStore = (webView: BridgeWebView, storeKey: keyof TStores) => {
+    if (refusedWebViews.has(webView)) return false;
+    const scope = webViewScopes.get(webView);
+    return scope ? scope(storeKey) : true;
+  };
+
   const broadcastToWebViews = (message: NativeToWebMessage<TStores>) => {
     const messageString = JSON.stringify(message);
     webViews.forEach((webView) => {
+      if ("storeKey" in message && !canAccessStore(webView, message.storeKey)) {
+        return;
+      }
       if (webView.postMessage) {
          webView.postMessage(messageString);
       } else {
@@ -157,6 +809,156 @@ export function createNativeBridge<TStores extends BridgeStores>(): NativeBridge
     });
   };
 
+  const postToWebView = (webView: BridgeWebView, message: NativeToWebMessage<TStores>) => {
+    if (webView.postMessage) webView.postMessage(JSON.stringify(message));
+  };
+
+  const removeWebView = (webView: BridgeWebView) => {
+    webViews.delete(webView);
+    readyWebViews.delete(webView);
+    readyStateListeners.delete(webView);
+    negotiatedProtocols.delete(webView);
+    refusedWebViews.delete(webView);
+    webViewScopes.delete(webView);
+    webViewIds.delete(webView);
+  };
+
+  /**
+   * Send pending changes, one versioned update per store. WebViews that support
+   * it receive the updates of several stores as a single STATE_BATCH.
+   */
+  const flushUpdates = () => {
+    flushScheduled = false;
+    const updates = Array.from(pendingUpdates, ([storeKey, operations]) => {
+      const version = (storeVersions.get(storeKey) ?? 0) + 1;
+      storeVersions.set(storeKey, version);
+      return { storeKey, operations, version };
+    });
+    pendingUpdates.clear();
+
+    webViews.forEach((webView) => {
+      const visibleUpdates = updates.filter(update => canAccessStore(webView, update.storeKey));
+      if (visibleUpdates.length === 0) return;
+      if (
+        visibleUpdates.length > 1 &&
+        negotiatedProtocols.get(webView)?.capabilities.includes("state-batch")
+      ) {
+        postToWebView(webView, { type: "STATE_BATCH", updates: visibleUpdates });
+      } else {
+        visibleUpdates.forEach(update => postToWebView(webView, { type: "STATE_UPDATE", ...update }));
+      }
+    });
+
+    afterFlushCallbacks.splice(0).forEach(callback => callback());
+  };
+
+  const scheduleFlush = () => {
+    if (transactionDepth > 0) return;
+    const batch = options.batch;
+    if (!batch) {
+      flushUpdates();
+      return;
+    }
+    if (flushScheduled) return;
+    flushScheduled = true;
+    if (batch === "microtask") {
+      queueMicrotask(flushUpdates);
+    } else if (batch === "frame") {
+      if (typeof requestAnimationFrame === "function") {
+        requestAnimationFrame(flushUpdates);
+      } else {
+        setTimeout(flushUpdates, 16);
+      }
+    } else {
+      setTimeout(flushUpdates, batch.maxLatency);
+    }
+  };
+
+  const queueStateUpdate = (storeKey: keyof TStores, operations: Operation[]) => {
+    const pending = pendingUpdates.get(storeKey);
+    if (pending) {
+      pending.push(...operations);
+    } else {
+      pendingUpdates.set(storeKey, [...operations]);
+    }
+    scheduleFlush();
+  };
+
+  /**
+   * Run a callback once pending changes were sent, right away when there are none
+   */
+  const afterFlush = (callback: () => void) => {
+    if (pendingUpdates.size === 0) {
+      callback();
+    } else {
+      afterFlushCallbacks.push(callback);
+    }
+  };
+
+  /**
+   * Full state of a store, tagged with its current version
+   */
+  const createInitMessage = (
+    key: keyof TStores,
+    store: Store<TStores[keyof TStores]["state"], TStores[keyof TStores]["events"]>
+  ): NativeToWebMessage<TStores> => ({
+    type: "STATE_INIT",
+    storeKey: key,
+    data: store.getSnapshot(),
+    version: storeVersions.get(key) ?? 0,
+    schemaVersion: store.getSchemaVersion?.(),
+    protocolVersion: protocol.protocolVersion,
+  });
+
+  /**
+   * Registers (or removes) a store and starts syncing it to WebViews
+   */
+  const publishStore = <K extends keyof TStores>(
+    key: K,
+    store: Store<TStores[K]["state"], TStores[K]["events"]> | undefined
+  ) => {
+    // Stop syncing the store previously registered under this key
+    storeSubscriptions.get(key)?.();
+    storeSubscriptions.delete(key);
+    // Unsent changes of the previous store must not be applied to its replacement
+    pendingUpdates.delete(key);
+
+    if (store === undefined) {
+      const existed = stores.delete(key);
+      storeVersions.delete(key);
+      if (existed) {
+        webViews.forEach((webView) => {
+          if (!canAccessStore(webView, key)) return;
+          const protocol = negotiatedProtocols.get(webView);
+          postToWebView(
+            webView,
+            protocol?.capabilities.includes("store-removal")
+              ? { type: "STORE_REMOVED", storeKey: key }
+              : { type: "STATE_INIT", storeKey: key, data: null }
+          );
+        });
+      }
+    } else {
+      let prevState = store.getSnapshot();
+      stores.set(key, store as Store<any, any>);
+      // Keep counting when a store is replaced so versions never go backwards
+      if (!storeVersions.has(key)) storeVersions.set(key, 0);
+
+      broadcastToWebViews(createInitMessage(key, store));
+
+      const unsubscribe = store.subscribe((currentState: TStores[K]["state"], changes?: Operation[]) => {
+        // Forward the store's own patches, diff only when the state was replaced
+        const operations = changes ?? compare(prevState, currentState);
+        if (operations.length > 0) {
+          queueStateUpdate(key, operations);
+        }
+        prevState = currentState;
+      });
+      storeSubscriptions.set(key, unsubscribe);
+    }
+    notifyStoreListeners();
+  };
+
   const processWebViewMessage = (
     data: string,
     sourceWebView?: BridgeWebView
@@ -174,36 +976,195 @@ export function createNativeBridge<TStores extends BridgeStores>(): NativeBridge
       return;
     }
 
+    // A refused WebView may only retry the handshake. Without a source the
+    // sender could be a refused WebView, so those messages are ignored too.
+    if (
+      parsedData.type !== "BRIDGE_READY" &&
+      (sourceWebView ? refusedWebViews.has(sourceWebView) : refusedWebViews.size > 0)
+    ) {
+      console.warn(`[Native Bridge] Ignoring ${parsedData.type} from a WebView whose handshake was refused.`);
+      return;
+    }
+
+    // Without a source the sender is unknown: its access cannot be checked and
+    // replies, which carry events, results or state, would reach WebViews scoped
+    // away from them
+    if (parsedData.type !== "BRIDGE_READY" && !sourceWebView && webViewScopes.size > 0) {
+      console.warn(
+        `[Native Bridge] Ignoring ${parsedData.type}: pass the sending WebView to handleWebMessage when WebViews are scoped.`
+      );
+      return;
+    }
+
     switch (parsedData.type) {
       case "BRIDGE_READY": {
         const targetWebViews = sourceWebView ? [sourceWebView] : Array.from(webViews);
+        let negotiated: NegotiatedProtocol;
+        try {
+          negotiated = negotiateProtocol(protocol, parsedData);
+        } catch (error) {
+          if (!(error instanceof BridgeProtocolError)) throw error;
+          targetWebViews.forEach(webView => {
+            refusedWebViews.add(webView);
+            readyWebViews.delete(webView);
+            negotiatedProtocols.delete(webView);
+            postToWebView(webView, {
+              type: "BRIDGE_ERROR",
+              code: error.code,
+              message: error.message,
+              protocolVersion: protocol.protocolVersion,
+              minProtocolVersion: protocol.minProtocolVersion,
+            });
+            if (options.onProtocolError) {
+              options.onProtocolError(error, webView);
+            } else {
+              console.warn("[Native Bridge] Rejected WebView handshake:", error.message);
+            }
+          });
+          break;
+        }
+        // Unsent changes would otherwise arrive after, and be applied on top of, the full state
+        flushUpdates();
         targetWebViews.forEach(webView => {
             if (!webView) return;
+            refusedWebViews.delete(webView);
+            negotiatedProtocols.set(webView, negotiated);
+            postToWebView(webView, { type: "BRIDGE_ACK", ...negotiated });
             readyWebViews.add(webView);
             notifyReadyStateListeners(webView, true);
             stores.forEach((store, key) => {
-                const initMessage = JSON.stringify({
-                    type: "STATE_INIT",
-                    storeKey: key,
-                    data: store.getSnapshot(),
-                });
-                if (webView.postMessage) webView.postMessage(initMessage);
+                if (canAccessStore(webView, key)) {
+                  postToWebView(webView, createInitMessage(key, store));
+                }
             });
         });
         break;
       }
+      case "RESYNC_REQUEST": {
+        const storeKey = parsedData.storeKey as keyof TStores;
+        const store = stores.get(storeKey);
+        if (!store) {
+          console.warn(`[Native Bridge] Resync requested for unknown store "${String(storeKey)}"`);
+          break;
+        }
+        flushUpdates();
+        const targetWebViews = sourceWebView ? [sourceWebView] : Array.from(webViews);
+        targetWebViews
+          .filter(webView => canAccessStore(webView, storeKey))
+          .forEach(webView => postToWebView(webView, createInitMessage(storeKey, store)));
+        break;
+      }
       case "EVENT": {
-        const { storeKey, event } = parsedData;
+        const { storeKey, event, id } = parsedData;
+        const targetWebViews = sourceWebView ? [sourceWebView] : Array.from(webViews);
+        const acknowledge = (
+          ack: Omit<Extract<NativeToWebMessage<TStores>, { type: "EVENT_ACK" }>, "type" | "id" | "storeKey">
+        ) => {
+          if (id === undefined) return;
+          targetWebViews.forEach(webView =>
+            postToWebView(webView, { type: "EVENT_ACK", id, storeKey, ...ack })
+          );
+        };
+        // Also reaches fire-and-forget dispatches, which wait for no ack
+        const reportError = (error: SerializedError) => {
+          targetWebViews.forEach(webView => {
+            // Older web bridges do not understand EVENT_ERROR
+            if (!negotiatedProtocols.get(webView)?.capabilities.includes("event-error")) return;
+            postToWebView(webView, {
+              type: "EVENT_ERROR",
+              storeKey: storeKey as keyof TStores,
+              event,
+              ...(id !== undefined ? { id } : {}),
+              error,
+            });
+          });
+        };
+
+        if (sourceWebView && !canAccessStore(sourceWebView, storeKey as keyof TStores)) {
+          acknowledge({
+            status: "rejected",
+            reason: `WebView is not allowed to access store "${storeKey}"`,
+          });
+          break;
+        }
         const store = stores.get(storeKey as keyof TStores) as Store<any, typeof event> | undefined;
-        if (store) {
-          store.dispatch(event);
+        if (!store) {
+          acknowledge({ status: "unknown_store", reason: `No store registered for key "${storeKey}"` });
+          break;
+        }
+        if (!event || typeof event !== "object" || typeof event.type !== "string") {
+          const reason = "Event must be an object with a string type";
+          acknowledge({ status: "invalid", reason, issues: [reason] });
+          break;
         }
+        const meta: EventMeta = {
+          source: "webview",
+          webViewId: sourceWebView ? webViewIds.get(sourceWebView) : undefined,
+          timestamp: Date.now(),
+          correlationId: id,
+        };
+        try {
+          lastDispatchBlocked = false;
+          store.dispatch(event, meta);
+        } catch (error) {
+          if (error instanceof EventValidationError) {
+            console.warn(`[Native Bridge] Rejected invalid event for store "${storeKey}":`, error.message);
+            reportError({ ...serializeError(error), data: { issues: error.issues } });
+            acknowledge({ status: "invalid", reason: error.message, issues: error.issues });
+            break;
+          }
+          if (options.onError) {
+            options.onError(error, { storeKey, event, meta });
+          } else {
+            console.error(`[Native Bridge] Error dispatching event "${event.type}" to store "${storeKey}":`, error);
+          }
+          const serialized = serializeError(error);
+          reportError(serialized);
+          acknowledge({ status: "rejected", reason: serialized.message });
+          break;
+        }
+        if (lastDispatchBlocked) {
+          acknowledge({ status: "rejected", reason: "blocked by middleware" });
+          break;
+        }
+        // Report the version of the update carrying this event's change
+        afterFlush(() =>
+          acknowledge({ status: "applied", version: storeVersions.get(storeKey as keyof TStores) ?? 0 })
+        );
+        break;
+      }
+      case "CALL": {
+        const { id, method, params } = parsedData;
+        const targetWebViews = sourceWebView ? [sourceWebView] : Array.from(webViews);
+        const respond = (message: NativeToWebMessage<TStores>) => {
+          targetWebViews.forEach(webView => postToWebView(webView, message));
+        };
+        const handler = methodHandlers.get(method);
+        if (!handler) {
+          respond({
+            type: "CALL_ERROR",
+            id,
+            error: {
+              name: "BridgeCallError",
+              message: `No handler registered for method "${method}"`,
+              code: "METHOD_NOT_FOUND",
+            },
+          });
+          break;
+        }
+        // Handlers may be sync or async, respond once the result settles
+        Promise.resolve()
+          .then(() => handler(params))
+          .then(
+            (result) => respond({ type: "CALL_RESULT", id, result }),
+            (error) => respond({ type: "CALL_ERROR", id, error: serializeError(error) })
+          );
         break;
       }
     }
   };
 
-  return {
+  const bridge: NativeBridge<TStores, TMethods> = {
     isSupported: () => true,
 
     getStore: <K extends keyof TStores>(key: K) => {
@@ -214,32 +1175,18 @@ export function createNativeBridge<TStores extends BridgeStores>(): NativeBridge
       key: K,
       store: Store<TStores[K]["state"], TStores[K]["events"]> | undefined
     ) => {
-      if (store === undefined) {
-        stores.delete(key);
-      } else {
-        let prevState = store.getSnapshot();
-        stores.set(key, store as Store<any, any>);
-
-        const initMessage = {
-          type: "STATE_INIT" as const,
-          storeKey: key,
-          data: store.getSnapshot(),
-        };
-        broadcastToWebViews(initMessage);
-
-        store.subscribe((currentState: TStores[K]["state"]) => {
-          const operations = compare(prevState, currentState);
-          if (operations.length > 0) {
-            broadcastToWebViews({
-              type: "STATE_UPDATE",
-              storeKey: key,
-              operations,
-            });
-          }
-          prevState = currentState;
+      hydratingStores.delete(key);
+      // Stores still loading persisted state are published once hydrated
+      if (store?.isHydrated && !store.isHydrated()) {
+        hydratingStores.set(key, store as Store<any, any>);
+        store.whenHydrated?.().then(() => {
+          if (hydratingStores.get(key) !== store) return;
+          hydratingStores.delete(key);
+          publishStore(key, store);
         });
+        return;
       }
-      notifyStoreListeners();
+      publishStore(key, store);
     },
 
     subscribe: (listener: () => void) => {
@@ -249,35 +1196,60 @@ export function createNativeBridge<TStores extends BridgeStores>(): NativeBridge
       };
     },
 
-    handleWebMessage: (message: string | { nativeEvent: { data: string } }) => {
+    handleWebMessage: (
+      message: string | { nativeEvent: { data: string } },
+      webView?: BridgeWebView | null
+    ) => {
       const messageData =
         typeof message === "string" ? message : message.nativeEvent.data;
-      processWebViewMessage(messageData, undefined);
+      if (webView && !webViews.has(webView)) {
+        console.warn("[Native Bridge] Ignoring message from unregistered WebView.");
+        return;
+      }
+      processWebViewMessage(messageData, webView ?? undefined);
     },
 
-    registerWebView: (webView: BridgeWebView | null | undefined) => {
+    registerWebView: (
+      webView: BridgeWebView | null | undefined,
+      registerOptions: RegisterWebViewOptions<TStores> = {}
+    ) => {
       if (!webView) return () => {};
+      // Changes made before registering are already part of the initial state sent below
+      flushUpdates();
       webViews.add(webView);
+      webViewIds.set(webView, registerOptions.id ?? webViewIds.get(webView) ?? `webview-${nextWebViewId++}`);
+      const allowedStores = registerOptions.stores;
+      if (typeof allowedStores === "function") {
+        webViewScopes.set(webView, allowedStores);
+      } else if (allowedStores) {
+        const allowedKeys = new Set(allowedStores);
+        webViewScopes.set(webView, (storeKey) => allowedKeys.has(storeKey));
+      } else {
+        webViewScopes.delete(webView);
+      }
       stores.forEach((store, key) => {
-         const initMessage = JSON.stringify({
-            type: "STATE_INIT",
-            storeKey: key,
-            data: store.getSnapshot(),
-         });
-         if (webView.postMessage) webView.postMessage(initMessage);
+         if (canAccessStore(webView, key)) {
+           postToWebView(webView, createInitMessage(key, store));
+         }
       });
-      return () => {
-        webViews.delete(webView);
-        readyWebViews.delete(webView);
-        readyStateListeners.delete(webView);
-      };
+      return () => removeWebView(webView);
     },
 
     unregisterWebView: (webView: BridgeWebView | null | undefined) => {
       if (!webView) return;
-      webViews.delete(webView);
-      readyWebViews.delete(webView);
-      readyStateListeners.delete(webView);
+      removeWebView(webView);
+    },
+
+    connect: (transport: Transport, connectOptions?: RegisterWebViewOptions<TStores>) => {
+      // The transport stands in for a WebView
+      const peer: BridgeWebView = { postMessage: (message: string) => transport.send(message) };
+      const unregister = bridge.registerWebView(peer, connectOptions);
+      const removeListener = transport.onMessage((message) => bridge.handleWebMessage(message, peer));
+      return () => {
+        removeListener();
+        unregister();
+        transport.close();
+      };
     },
 
     subscribeToReadyState: (
@@ -310,5 +1282,67 @@ export function createNativeBridge<TStores extends BridgeStores>(): NativeBridge
       if (!webView) return false;
       return readyWebViews.has(webView);
     },
+
+    getProtocol: (webView: BridgeWebView | null | undefined) => {
+      if (!webView) return null;
+      return negotiatedProtocols.get(webView) ?? null;
+    },
+
+    handle: <M extends keyof TMethods & string>(
+      method: M,
+      handler: (
+        params: TMethods[M]["params"]
+      ) => TMethods[M]["result"] | Promise<TMethods[M]["result"]>
+    ) => {
+      const typedHandler = handler as (params: unknown) => unknown;
+      methodHandlers.set(method, typedHandler);
+      return () => {
+        if (methodHandlers.get(method) === typedHandler) {
+          methodHandlers.delete(method);
+        }
+      };
+    },
+
+    runEffects: <K extends keyof TStores>(
+      key: K,
+      effects: EffectsConfig<TStores[K]["state"], TStores[K]["events"]>,
+      effectOptions?: RunEffectsOptions<TStores[K]["events"]>
+    ) => {
+      let attachedStore: Store<any, any> | undefined;
+      let stopEffects = () => {};
+      // Move the effects over whenever the store under this key changes
+      const attach = () => {
+        const store = stores.get(key);
+        if (store === attachedStore) return;
+        stopEffects();
+        attachedStore = store;
+        stopEffects = store ? runEffects(store, effects, effectOptions) : () => {};
+      };
+      attach();
+      storeListeners.add(attach);
+      return () => {
+        storeListeners.delete(attach);
+        stopEffects();
+      };
+    },
+
+    transaction: (fn: () => void) => {
+      // Wrap fn in the transaction of every store; the first store is innermost so it commits first
+      const run = Array.from(stores.values()).reduce<() => void>(
+        (next, store) => (store.transaction ? () => store.transaction!(next) : next),
+        fn
+      );
+      transactionDepth++;
+      try {
+        run();
+      } finally {
+        transactionDepth--;
+        if (transactionDepth === 0 && pendingUpdates.size > 0) {
+          scheduleFlush();
+        }
+      }
+    },
   };
+
+  return bridge;
 }
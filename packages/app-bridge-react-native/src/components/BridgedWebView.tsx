@@ -1,7 +1,7 @@
 import React from 'react';
 import { WebView, WebViewMessageEvent } from 'react-native-webview';
 import type { WebViewProps } from 'react-native-webview';
-import type { BridgeStores, NativeBridge } from '@open-game-system/app-bridge-types';
+import type { BridgeStores, NativeBridge, RegisterWebViewOptions } from '@open-game-system/app-bridge-types';
 
 /**
  * Props for BridgedWebView component
@@ -14,6 +14,12 @@ export interface BridgedWebViewProps<TStores extends BridgeStores>
    * The NativeBridge instance to use for communication
    */
   bridge: NativeBridge<TStores>;
+
+  /**
+   * Options for registering the WebView, e.g. the stores it may access and its id.
+   * Read when the WebView is registered, i.e. on mount and when the bridge changes.
+   */
+  registerOptions?: RegisterWebViewOptions<TStores>;
   
   /**
    * Optional custom message handler for WebView messages
@@ -32,24 +38,27 @@ export interface BridgedWebViewProps<TStores extends BridgeStores>
  */
 export function BridgedWebView<TStores extends BridgeStores>({
   bridge,
+  registerOptions,
   onMessage,
   source,
   ...rest
 }: BridgedWebViewProps<TStores>) {
   const webViewRef = React.useRef<WebView>(null);
+  const registerOptionsRef = React.useRef(registerOptions);
+  registerOptionsRef.current = registerOptions;
 
   // Register/unregister WebView with the bridge
   React.useEffect(() => {
-    if (webViewRef.current) {
-      bridge.registerWebView(webViewRef.current);
-    }
+    const webView = webViewRef.current;
+    if (!webView) return;
+    return bridge.registerWebView(webView, registerOptionsRef.current);
   }, [bridge]);
 
   // Create a message handler that processes bridge messages and calls custom handler
   const handleMessage = React.useCallback(
     (event: WebViewMessageEvent) => {
-      // Handle bridge message processing
-      bridge.handleWebMessage(event.nativeEvent.data);
+      // Handle bridge message processing, tagged with the WebView it came from
+      bridge.handleWebMessage(event.nativeEvent.data, webViewRef.current);
       
       // Call custom handler if provided
       onMessage?.(event);
@@ -58,7 +58,14 @@ describe('BridgedWebView', () => {
     render(<BridgedWebView bridge={mockBridge} source={source} />);
     // This assertion remains the same
     expect(mockBridge.registerWebView).toHaveBeenCalledTimes(1);
-    expect(mockBridge.registerWebView).toHaveBeenCalledWith(expect.anything()); 
+    expect(mockBridge.registerWebView).toHaveBeenCalledWith(expect.anything(), undefined); 
+  });
+
+  it('should pass registerOptions to bridge.registerWebView', () => {
+    const source = { uri: 'https://example.com' };
+    const registerOptions = { stores: ['counter' as const], id: 'game' };
+    render(<BridgedWebView bridge={mockBridge} source={source} registerOptions={registerOptions} />);
+    expect(mockBridge.registerWebView).toHaveBeenCalledWith(expect.anything(), registerOptions);
   });
 
   it('should call bridge.handleWebMessage and props.onMessage when receiving a message', () => {
@@ -88,7 +95,10 @@ describe('BridgedWebView', () => {
 
     // Check bridge interaction
     expect(mockBridge.handleWebMessage).toHaveBeenCalledTimes(1);
-    expect(mockBridge.handleWebMessage).toHaveBeenCalledWith(mockTestMessageData);
+    expect(mockBridge.handleWebMessage).toHaveBeenCalledWith(
+      mockTestMessageData,
+      mockBridge.registerWebView.mock.calls[0][0]
+    );
     
     // Check prop callback interaction
     expect(mockOnMessageProp).toHaveBeenCalledTimes(1);
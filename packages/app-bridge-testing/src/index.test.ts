@@ -163,6 +163,30 @@ describe("createMockBridge", () => {
     expect(listener).toHaveBeenCalledWith({ value: 42 });
   });
 
+  it("should notify select listeners when the selected value changes", () => {
+    const bridge = createMockBridge<TestStores>({
+      isSupported: true,
+      initialState: {
+        user: { name: "Ada", age: 36 },
+      },
+    });
+
+    const userStore = bridge.getStore("user");
+    if (!userStore) throw new Error("Store not available");
+    const listener = vi.fn();
+    userStore.select((state: UserState) => state.name, listener, { fireImmediately: true });
+    expect(listener).toHaveBeenCalledWith("Ada", "Ada");
+    listener.mockClear();
+
+    userStore.produce((state: UserState) => {
+      state.age = 37;
+    });
+    expect(listener).not.toHaveBeenCalled();
+
+    userStore.setState({ name: "Grace", age: 37 });
+    expect(listener).toHaveBeenCalledWith("Grace", "Ada");
+  });
+
   it("should check if bridge is supported", () => {
     const bridge = createMockBridge<TestStores>({
       isSupported: true,
@@ -1,4 +1,5 @@
-import type { WebView, State, Event } from '@open-game-system/app-bridge-types';
+import { subscribeWithSelector } from '@open-game-system/app-bridge-types';
+import type { WebView, State, Event, SelectOptions } from '@open-game-system/app-bridge-types';
 
 /**
  * Base type for state objects
@@ -36,6 +37,12 @@ export interface MockStore<TState extends State = State, TEvent extends Event =
   reset: () => void;
   /** Set the store's complete state and notify listeners */
   setState: (state: TState) => void;
+  /** Subscribe to a slice of the state, like Store.select */
+  select: <T>(
+    selector: (state: TState) => T,
+    listener: (selected: T, previous: T) => void,
+    options?: SelectOptions<T>
+  ) => () => void;
   /**
    * Add the 'on' method signature to satisfy the Store interface
    */
@@ -131,9 +138,12 @@ export interface MockBridge<TStores extends BridgeStores>
   isSupported: () => boolean;
 
   /**
-   * Process a message received from the WebView
+   * Process a message received from the WebView, optionally tagged with its source
    */
-  handleWebMessage: (message: string | { nativeEvent: { data: string } }) => void;
+  handleWebMessage: (
+    message: string | { nativeEvent: { data: string } },
+    webView?: WebView | null
+  ) => void;
 
   /**
    * Register a WebView to receive state updates
@@ -266,6 +276,12 @@ export function createMockBridge<TStores extends BridgeStores>(
         };
       },
 
+      select: <T>(
+        selector: (state: TStores[K]["state"]) => T,
+        listener: (selected: T, previous: T) => void,
+        options?: SelectOptions<T>
+      ): (() => void) => subscribeWithSelector(storeInstance, selector, listener, options),
+
       // Mock dispatch only records history and notifies listeners
       dispatch: (event: TStores[K]["events"]): void => { // Dispatch is void
         if (!eventHistory.has(storeKey)) {
@@ -438,13 +454,16 @@ export function createMockBridge<TStores extends BridgeStores>(
       }
     },
 
-    handleWebMessage: (message: string | { nativeEvent: { data: string } }) => {
+    handleWebMessage: (
+      message: string | { nativeEvent: { data: string } },
+      sourceWebView?: WebView | null
+    ) => {
       const data = typeof message === 'string' ? message : message.nativeEvent.data;
       try {
         const parsedMessage = JSON.parse(data);
         if (parsedMessage.type === 'BRIDGE_READY') {
-          const webView = webViews.values().next().value;
-          if (webView) {
+          const webView = sourceWebView ?? webViews.values().next().value;
+          if (webView && webViews.has(webView)) {
             readyWebViews.add(webView);
             notifyReadyStateListeners();
           }
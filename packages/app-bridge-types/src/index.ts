@@ -44,6 +44,28 @@ export type BridgeStores<
   };
 };
 
+/**
+ * Describes where and when a dispatched event originated
+ */
+export interface EventMeta {
+  /**
+   * `native` for events dispatched by native code, `webview` for events bridged from a WebView
+   */
+  source: "native" | "webview";
+  /**
+   * Id of the WebView that sent the event, when source is `webview`
+   */
+  webViewId?: string;
+  /**
+   * Milliseconds since epoch when the event was received
+   */
+  timestamp: number;
+  /**
+   * Id correlating the event with its acknowledgement, when the sender provided one
+   */
+  correlationId?: string;
+}
+
 /**
  * Represents a store instance with state management capabilities
  */
@@ -57,23 +79,65 @@ export interface Store<S extends State = State, E extends Event = Event> {
   /**
    * Dispatch an event to the store. Returns a Promise that resolves when listeners complete.
    */
-  dispatch(event: E): void; // Revert to void return type
+  dispatch(event: E, meta?: Partial<EventMeta>): void; // Revert to void return type
 
   /**
    * Subscribe to state changes
+   * Listeners also receive the change as JSON Patch operations when the store
+   * knows them (e.g. from the producer), and undefined when the state was replaced.
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: (state: S, operations?: Operation[]) => void): () => void;
+
+  /**
+   * Subscribe to a slice of the state, present on the stores of this package family.
+   * `subscribeWithSelector` does the same for any store.
+   * The listener only runs when the selected value changes according to `equalityFn`.
    * Returns an unsubscribe function
    */
-  subscribe(listener: (state: S) => void): () => void;
+  select?<T>(
+    selector: (state: S) => T,
+    listener: (selected: T, previous: T) => void,
+    options?: SelectOptions<T>
+  ): () => void;
 
   /**
    * Reset store to its initial state
    */
   reset(): void;
 
+  /**
+   * Whether the store finished loading its persisted state.
+   * Stores without persistence are always hydrated.
+   */
+  isHydrated?(): boolean;
+
+  /**
+   * Resolves once the store finished loading its persisted state
+   */
+  whenHydrated?(): Promise<void>;
+
+  /**
+   * Version of the state shape, advertised to WebViews in STATE_INIT
+   */
+  getSchemaVersion?(): number | undefined;
+
+  /**
+   * Undo/redo controls, present on stores created with `history`
+   */
+  history?: StoreHistory;
+
+  /**
+   * Apply every event dispatched inside `fn` atomically.
+   * Subscribers are notified once with the final state and event listeners run after
+   * the commit. If `fn` (or a producer) throws, the state is rolled back and the error rethrown.
+   */
+  transaction?(fn: () => void): void;
+
   /**
    * Add a listener for specific dispatched events.
    * @param eventType The type of the dispatched event (E['type']).
-   * @param listener The callback function (potentially async) receiving the event and store instance.
+   * @param listener The callback function (potentially async) receiving the event, store instance and event metadata.
    * @returns An unsubscribe function.
    */
   // Ensure signature matches Plan v4
@@ -81,11 +145,119 @@ export interface Store<S extends State = State, E extends Event = Event> {
     eventType: EventType,
     listener: (
       event: Extract<E, { type: EventType }>,
-      store: Store<S, E> // Pass store instance
+      store: Store<S, E>, // Pass store instance
+      meta: EventMeta
     ) => Promise<void> | void // Allow async
   ): () => void;
 }
 
+/**
+ * Options for `Store.select`
+ */
+export interface SelectOptions<T> {
+  /**
+   * Decides whether the selected value changed, defaults to Object.is.
+   * Pass `shallowEqual` for selectors that build new objects or arrays.
+   */
+  equalityFn?: (a: T, b: T) => boolean;
+  /**
+   * Call the listener right away with the current selection (defaults to false)
+   */
+  fireImmediately?: boolean;
+}
+
+/**
+ * Compares two values by their own enumerable keys, one level deep
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || a === null || typeof b !== "object" || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Implements `Store.select` on top of a store's `getSnapshot` and `subscribe`
+ */
+export function subscribeWithSelector<S, T>(
+  store: {
+    getSnapshot(): S;
+    subscribe(listener: (state: S) => void): () => void;
+  },
+  selector: (state: S) => T,
+  listener: (selected: T, previous: T) => void,
+  options: SelectOptions<T> = {}
+): () => void {
+  const equalityFn = options.equalityFn ?? Object.is;
+  let selected = selector(store.getSnapshot());
+  if (options.fireImmediately) {
+    listener(selected, selected);
+  }
+  // subscribe reports the current state right away, which is already selected
+  let subscribing = true;
+  const unsubscribe = store.subscribe((state) => {
+    if (subscribing) return;
+    const next = selector(state);
+    if (equalityFn(selected, next)) return;
+    const previous = selected;
+    selected = next;
+    listener(next, previous);
+  });
+  subscribing = false;
+  return unsubscribe;
+}
+
+/**
+ * Built-in event types that undo or redo the last change of a store with history.
+ * Include `HistoryEvent` in a store's events to dispatch them, from native or the web.
+ */
+export const UNDO_EVENT_TYPE = "@@UNDO";
+export const REDO_EVENT_TYPE = "@@REDO";
+
+export type HistoryEvent = { type: typeof UNDO_EVENT_TYPE } | { type: typeof REDO_EVENT_TYPE };
+
+/**
+ * Undo/redo controls of a store
+ */
+export interface StoreHistory {
+  /**
+   * Revert the last recorded change. Returns false when there is nothing to undo.
+   */
+  undo(): boolean;
+  /**
+   * Reapply the last undone change. Returns false when there is nothing to redo.
+   */
+  redo(): boolean;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  /**
+   * Forget all recorded changes
+   */
+  clear(): void;
+  /**
+   * Record all changes made by events dispatched inside `fn` as a single undo step
+   */
+  group(fn: () => void): void;
+}
+
+/**
+ * History settings for a store
+ */
+export interface HistoryOptions {
+  /**
+   * Maximum number of undo steps kept (defaults to 100)
+   */
+  limit?: number;
+}
+
 /**
  * Producer function type for handling events (simplified)
  */
@@ -97,10 +269,156 @@ export type Producer<S extends State, E extends Event> = (draft: S, event: E) =>
 export type StoreOnConfig<S extends State, E extends Event> = Partial<{
   [K in E['type']]: (
     event: Extract<E, { type: K }>,
-    store: Store<S, E>
+    store: Store<S, E>,
+    meta: EventMeta
   ) => Promise<void> | void;
 }>;
 
+/**
+ * How an effect handles events that arrive while earlier runs are in flight
+ * - "every": run for every event, concurrently (takeEvery)
+ * - "latest": abort the previous run when a new event arrives (takeLatest)
+ * - { debounce }: run once no new event arrived for the given milliseconds,
+ *   aborting a previous run that is still in flight
+ */
+export type EffectStrategy = "every" | "latest" | { debounce: number };
+
+/**
+ * Passed to every effect run
+ */
+export interface EffectContext<S extends State, E extends Event> {
+  /**
+   * Aborted when the run is superseded by a newer event or the effects are stopped
+   */
+  signal: AbortSignal;
+  /**
+   * Dispatch a follow-up event to the store. Ignored once the run was aborted.
+   */
+  dispatch: (event: E) => void;
+  getState: () => S;
+  meta: EventMeta;
+}
+
+export type EffectHandler<S extends State, E extends Event, T extends E['type'] = E['type']> = (
+  event: Extract<E, { type: T }>,
+  context: EffectContext<S, E>
+) => Promise<void> | void;
+
+/**
+ * Effects keyed by the event type that starts them. A plain handler runs for every event.
+ */
+export type EffectsConfig<S extends State, E extends Event> = Partial<{
+  [K in E['type']]: EffectHandler<S, E, K> | { strategy: EffectStrategy; run: EffectHandler<S, E, K> };
+}>;
+
+export interface RunEffectsOptions<E extends Event> {
+  /**
+   * Called when an effect throws or rejects, defaults to a console error.
+   * Errors of aborted runs are ignored.
+   */
+  onError?: (error: unknown, event: E) => void;
+}
+
+/**
+ * Intercepts events before they reach the producer, Redux-style.
+ * Call `next` to pass an event on (possibly rewritten), or skip it to block the event.
+ */
+export type Middleware<S extends State, E extends Event> = (
+  store: Store<S, E>
+) => (
+  next: (event: E, meta: EventMeta) => void
+) => (event: E, meta: EventMeta) => void;
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaResult =
+  | { readonly value: unknown; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<{ readonly message: string }> };
+
+/**
+ * Minimal subset of the Standard Schema interface (https://standardschema.dev)
+ * implemented by Zod, Valibot, ArkType and others
+ */
+export interface StandardSchema {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult | Promise<StandardSchemaResult>;
+  };
+}
+
+/**
+ * Checks the shape of an incoming event before it reaches middleware and the producer.
+ * Either a function returning `true` when the event is valid (or `false` / an error
+ * message when it is not), or a synchronous Standard Schema.
+ */
+export type EventValidator = ((event: unknown) => boolean | string) | StandardSchema;
+
+/**
+ * Validators keyed by event type. Events without a validator are not checked.
+ */
+export type EventValidators<E extends Event> = Partial<Record<E["type"], EventValidator>>;
+
+/**
+ * Thrown by Store.dispatch when an event fails validation
+ */
+export class EventValidationError extends Error {
+  readonly code = "INVALID_EVENT";
+  readonly eventType: string;
+  readonly issues: string[];
+
+  constructor(message: string, options: { eventType: string; issues: string[] }) {
+    super(message);
+    this.name = "EventValidationError";
+    this.eventType = options.eventType;
+    this.issues = options.issues;
+  }
+}
+
+/**
+ * Async key-value storage used to persist store state.
+ * Compatible with React Native AsyncStorage and MMKV-style wrappers.
+ */
+export interface PersistStorage {
+  getItem(key: string): Promise<string | null> | string | null;
+  setItem(key: string, value: string): Promise<void> | void;
+  removeItem?(key: string): Promise<void> | void;
+}
+
+/**
+ * Persistence settings for a store
+ */
+export interface PersistOptions<S extends State> {
+  /**
+   * Storage key the state is saved under
+   */
+  key: string;
+  storage: PersistStorage;
+  /**
+   * Version of the persisted state shape (defaults to the store's schemaVersion, or 0)
+   */
+  version?: number;
+  /**
+   * Converts state saved under an older version to the current shape.
+   * Takes precedence over the store's `migrations`. Without either,
+   * state saved under another version is discarded.
+   */
+  migrate?: (persistedState: unknown, persistedVersion: number) => S | Promise<S>;
+  /**
+   * Milliseconds to wait after the last state change before writing (defaults to 100)
+   */
+  debounce?: number;
+}
+
+/**
+ * Migrations keyed by the schema version they produce.
+ * `migrations[3]` turns a version 2 state into a version 3 state.
+ */
+export type StateMigrations = Record<number, (state: any) => unknown>;
+
 /**
  * Store configuration for creating new stores (simplified)
  */
@@ -108,6 +426,13 @@ export interface StoreConfig<S extends State, E extends Event> {
   initialState: S;
   producer?: Producer<S, E>;
   on?: StoreOnConfig<S, E>; // Optional 'on' config
+  middleware?: Middleware<S, E>[]; // Applied in order, the first one sees events first
+  validate?: EventValidators<E>; // Invalid events are rejected before middleware runs
+  persist?: PersistOptions<S>; // Load state from storage on creation and save it on change
+  schemaVersion?: number; // Version of the state shape, advertised to WebViews
+  migrations?: StateMigrations; // Run on hydration to bring older persisted state up to schemaVersion
+  history?: boolean | HistoryOptions; // Record changes so they can be undone and redone
+  onError?: (error: unknown, event: E, meta: EventMeta) => void; // Observes producer errors, dispatch still rethrows them
 }
 
 /**
@@ -157,36 +482,541 @@ export interface Bridge<TStores extends BridgeStores> {
   subscribe: (listener: () => void) => () => void;
 }
 
+/**
+ * Protocol revision spoken by this release of the bridge packages.
+ * Revision 1 is the original handshake where BRIDGE_READY carried no payload.
+ */
+export const BRIDGE_PROTOCOL_VERSION = 2;
+
+/**
+ * Oldest protocol revision this release can still talk to
+ */
+export const MIN_BRIDGE_PROTOCOL_VERSION = 1;
+
+/**
+ * Optional protocol features advertised by this release during the handshake
+ */
+export const BRIDGE_CAPABILITIES: readonly string[] = [
+  "rpc",
+  "event-ack",
+  "resync",
+  "store-removal",
+  "state-batch",
+  "event-error",
+];
+
+/**
+ * Protocol information one side of the bridge advertises during the handshake
+ */
+export interface BridgeProtocolInfo {
+  protocolVersion: number;
+  minProtocolVersion: number;
+  capabilities: string[];
+}
+
+/**
+ * Result of a successful handshake: the revision both sides speak and the
+ * capabilities both sides support
+ */
+export interface NegotiatedProtocol {
+  protocolVersion: number;
+  capabilities: string[];
+}
+
+export type BridgeProtocolErrorCode = "INCOMPATIBLE_PROTOCOL_VERSION";
+
+/**
+ * Raised when the web and native sides cannot agree on a protocol revision
+ */
+export class BridgeProtocolError extends Error {
+  readonly code: BridgeProtocolErrorCode;
+  readonly localVersion: number;
+  readonly remoteVersion: number;
+
+  constructor(
+    message: string,
+    options: {
+      code?: BridgeProtocolErrorCode;
+      localVersion: number;
+      remoteVersion: number;
+    }
+  ) {
+    super(message);
+    this.name = "BridgeProtocolError";
+    this.code = options.code ?? "INCOMPATIBLE_PROTOCOL_VERSION";
+    this.localVersion = options.localVersion;
+    this.remoteVersion = options.remoteVersion;
+  }
+}
+
+/**
+ * Negotiates the protocol spoken with a peer.
+ * A peer that advertises no version is treated as a revision 1 peer without capabilities.
+ * @throws BridgeProtocolError if the revision ranges of both sides do not overlap
+ */
+export function negotiateProtocol(
+  local: BridgeProtocolInfo,
+  remote: Partial<BridgeProtocolInfo>
+): NegotiatedProtocol {
+  const remoteVersion = remote.protocolVersion ?? 1;
+  const remoteMinVersion = remote.minProtocolVersion ?? remoteVersion;
+  const protocolVersion = Math.min(local.protocolVersion, remoteVersion);
+
+  if (protocolVersion < local.minProtocolVersion || protocolVersion < remoteMinVersion) {
+    throw new BridgeProtocolError(
+      `Incompatible bridge protocol: local supports ${local.minProtocolVersion}-${local.protocolVersion}, remote supports ${remoteMinVersion}-${remoteVersion}`,
+      { localVersion: local.protocolVersion, remoteVersion }
+    );
+  }
+
+  const remoteCapabilities = new Set(remote.capabilities ?? []);
+  return {
+    protocolVersion,
+    capabilities: local.capabilities.filter((capability) =>
+      remoteCapabilities.has(capability)
+    ),
+  };
+}
+
+/**
+ * Represents the request/response methods native exposes to the web side
+ * Example:
+ * type GameMethods = {
+ *   purchaseItem: { params: { itemId: string }; result: { receipt: string } };
+ *   readSecureValue: { params: { key: string }; result: string | null };
+ * }
+ */
+export type BridgeMethods = Record<string, { params: unknown; result: unknown }>;
+
+/**
+ * JSON-safe representation of an error thrown by a method handler
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  data?: unknown;
+}
+
+export type BridgeCallErrorCode =
+  | "HANDLER_ERROR"
+  | "METHOD_NOT_FOUND"
+  | "TIMEOUT"
+  | "NOT_SUPPORTED"
+  | "DESTROYED"
+  | "REFUSED";
+
+/**
+ * Raised on the web side when a bridge method call fails
+ */
+export class BridgeCallError extends Error {
+  readonly code: string;
+  readonly method: string;
+  readonly data?: unknown;
+
+  constructor(
+    message: string,
+    options: { method: string; code?: string; data?: unknown; name?: string }
+  ) {
+    super(message);
+    this.name = options.name ?? "BridgeCallError";
+    this.code = options.code ?? "HANDLER_ERROR";
+    this.method = options.method;
+    this.data = options.data;
+  }
+}
+
+/**
+ * Converts anything thrown by a method handler into a SerializedError
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    const { code, data } = error as Error & { code?: unknown; data?: unknown };
+    return {
+      name: error.name,
+      message: error.message,
+      ...(typeof code === "string" ? { code } : {}),
+      ...(data !== undefined ? { data } : {}),
+    };
+  }
+  return { name: "Error", message: String(error) };
+}
+
+/**
+ * Raised on the web side when native fails to apply an event sent by this page,
+ * e.g. because the store's producer threw. Delivered through `WebBridge.onError`.
+ */
+export class BridgeEventError extends Error {
+  readonly code?: string;
+  readonly storeKey: string;
+  readonly event: Event;
+  readonly eventId?: string;
+  readonly data?: unknown;
+
+  constructor(
+    message: string,
+    options: { storeKey: string; event: Event; eventId?: string; name?: string; code?: string; data?: unknown }
+  ) {
+    super(message);
+    this.name = options.name ?? "BridgeEventError";
+    this.code = options.code;
+    this.storeKey = options.storeKey;
+    this.event = options.event;
+    this.eventId = options.eventId;
+    this.data = options.data;
+  }
+}
+
+/**
+ * Outcome of a bridged event reported by native in EVENT_ACK
+ * - applied: the store ran the event
+ * - rejected: the store refused or failed to run the event
+ * - invalid: the event failed validation and never reached the producer
+ * - unknown_store: no store is registered under the event's store key
+ */
+export type EventAckStatus = "applied" | "rejected" | "invalid" | "unknown_store";
+
+/**
+ * Result of an event that native acknowledged as applied
+ */
+export interface DispatchResult {
+  /**
+   * Version of the store's state after the event was applied
+   */
+  version: number;
+}
+
+export type BridgeDispatchErrorCode =
+  | "REJECTED"
+  | "INVALID_EVENT"
+  | "UNKNOWN_STORE"
+  | "TIMEOUT"
+  | "NOT_SUPPORTED"
+  | "DESTROYED"
+  | "DROPPED"
+  | "REFUSED";
+
+/**
+ * Raised on the web side when native does not apply a dispatched event
+ */
+export class BridgeDispatchError extends Error {
+  readonly code: BridgeDispatchErrorCode;
+  readonly storeKey: string;
+  readonly event: Event;
+  readonly issues?: string[];
+
+  constructor(
+    message: string,
+    options: { code: BridgeDispatchErrorCode; storeKey: string; event: Event; issues?: string[] }
+  ) {
+    super(message);
+    this.name = "BridgeDispatchError";
+    this.code = options.code;
+    this.storeKey = options.storeKey;
+    this.event = options.event;
+    this.issues = options.issues;
+  }
+}
+
 /**
  * Message types for communication between web and native
  */
 export type WebToNativeMessage =
-  | { type: "EVENT"; storeKey: string; event: Event }
-  | { type: "BRIDGE_READY" };
+  | { type: "EVENT"; storeKey: string; event: Event; id?: string }
+  | ({ type: "BRIDGE_READY" } & Partial<BridgeProtocolInfo>)
+  | { type: "CALL"; id: string; method: string; params: unknown }
+  | { type: "RESYNC_REQUEST"; storeKey: string };
 
-export type NativeToWebMessage<TStores extends BridgeStores> =
+/**
+ * State messages carry a per-store version that increases by one with every
+ * STATE_UPDATE. STATE_INIT carries the version of the full state it contains.
+ * The web side uses it to detect dropped or reordered updates.
+ * Removed stores are announced with STORE_REMOVED, or with a STATE_INIT
+ * without data for WebViews that lack the "store-removal" capability.
+ * STATE_INIT also carries the schemaVersion of the state shape when the store declares one.
+ * From revision 2 on STATE_INIT also carries the protocolVersion of the native
+ * bridge, so the web side knows to wait for BRIDGE_ACK before sending events.
+ * STATE_BATCH carries the updates of several stores at once for WebViews with
+ * the "state-batch" capability.
+ * EVENT_ERROR reports an event that failed while being applied to WebViews with
+ * the "event-error" capability.
+ */
+export type NativeToWebMessage<TStores extends BridgeStores = BridgeStores> =
   | {
       type: "STATE_INIT";
       storeKey: keyof TStores;
-      data: TStores[keyof TStores]["state"];
+      data: TStores[keyof TStores]["state"] | null;
+      version?: number;
+      schemaVersion?: number;
+      protocolVersion?: number;
     }
+  | { type: "STORE_REMOVED"; storeKey: keyof TStores }
   | {
       type: "STATE_UPDATE";
       storeKey: keyof TStores;
       data?: TStores[keyof TStores]["state"];
       operations?: Operation[];
+      version?: number;
+    }
+  | {
+      type: "STATE_BATCH";
+      updates: { storeKey: keyof TStores; operations: Operation[]; version: number }[];
+    }
+  | ({ type: "BRIDGE_ACK" } & NegotiatedProtocol)
+  | {
+      type: "BRIDGE_ERROR";
+      code: BridgeProtocolErrorCode;
+      message: string;
+      protocolVersion: number;
+      minProtocolVersion: number;
+    }
+  | { type: "CALL_RESULT"; id: string; result: unknown }
+  | { type: "CALL_ERROR"; id: string; error: SerializedError }
+  | {
+      type: "EVENT_ACK";
+      id: string;
+      storeKey: keyof TStores;
+      status: EventAckStatus;
+      version?: number;
+      reason?: string;
+      issues?: string[];
+    }
+  | {
+      type: "EVENT_ERROR";
+      storeKey: keyof TStores;
+      event: Event;
+      id?: string;
+      error: SerializedError;
     };
 
+/**
+ * Options for a single bridge method call
+ */
+export interface CallOptions {
+  /**
+   * Milliseconds to wait for native to respond before rejecting with a TIMEOUT error
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for a single acknowledged dispatch
+ */
+export interface DispatchOptions {
+  /**
+   * Milliseconds to wait for native to acknowledge the event before rejecting with a TIMEOUT error
+   */
+  timeout?: number;
+}
+
+/**
+ * Store mirrored from native on the web side
+ */
+export interface WebStore<S extends State = State, E extends Event = Event>
+  extends Store<S, E> {
+  /** Subscribe to a slice of the state, like Store.select */
+  select<T>(
+    selector: (state: S) => T,
+    listener: (selected: T, previous: T) => void,
+    options?: SelectOptions<T>
+  ): () => void;
+  /**
+   * Dispatch an event and wait for native to apply it.
+   * Resolves with the store version after the event was applied, or rejects
+   * with a BridgeDispatchError if native rejected the event or did not answer.
+   */
+  dispatchAsync(event: E, options?: DispatchOptions): Promise<DispatchResult>;
+}
+
+/**
+ * Events a web bridge holds back until native is ready for them
+ */
+export interface EventQueueStatus {
+  /**
+   * Number of events waiting to be sent, by store key
+   */
+  pending: Record<string, number>;
+  /**
+   * Total number of events waiting to be sent
+   */
+  size: number;
+  /**
+   * Number of queued events dropped without being sent, because a queue was
+   * full or native refused the handshake
+   */
+  dropped: number;
+}
+
+/**
+ * How a web bridge gets its stores:
+ * - "native": synced from a native side (React Native, an iframe host page or a custom transport)
+ * - "standalone": no native side, the page runs its fallback stores locally
+ * - "unavailable": no native side and no fallback stores, or the bridge was destroyed
+ */
+export type WebBridgeMode = "native" | "standalone" | "unavailable";
+
+/**
+ * Web bridge interface with the handshake state of the connection to native.
+ */
+export interface WebBridge<
+  TStores extends BridgeStores,
+  TMethods extends BridgeMethods = BridgeMethods
+> extends Bridge<TStores> {
+  getStore: <K extends keyof TStores>(
+    storeKey: K
+  ) => WebStore<TStores[K]["state"], TStores[K]["events"]> | undefined;
+  /**
+   * Get the protocol negotiated with native
+   * Returns null until native has acknowledged BRIDGE_READY
+   */
+  getProtocol: () => NegotiatedProtocol | null;
+  /**
+   * Dispatch an event to a store, also before native has sent its state.
+   * Until then the event is queued, see `getQueueStatus`.
+   */
+  dispatch: <K extends keyof TStores>(
+    storeKey: K,
+    event: TStores[K]["events"]
+  ) => Promise<void>;
+  /**
+   * Call a method handled on the native side.
+   * Rejects with a BridgeCallError if the handler throws, no handler is
+   * registered or native does not respond in time.
+   */
+  call: <M extends keyof TMethods & string>(
+    method: M,
+    params: TMethods[M]["params"],
+    options?: CallOptions
+  ) => Promise<TMethods[M]["result"]>;
+  /**
+   * Subscribe to errors native reports for events sent by this page
+   * Returns an unsubscribe function
+   */
+  onError: (listener: (error: BridgeEventError) => void) => () => void;
+  /**
+   * Which mode the bridge runs in. `isSupported()` is only true in "native" mode.
+   */
+  getMode: () => WebBridgeMode;
+  /**
+   * Events dispatched before native is ready for a store are queued and sent
+   * in order once it is.
+   * Returns the current queue status.
+   */
+  getQueueStatus: () => EventQueueStatus;
+  /**
+   * Subscribe to changes of the event queue
+   * Returns an unsubscribe function
+   */
+  subscribeToQueue: (listener: (status: EventQueueStatus) => void) => () => void;
+  /**
+   * Stop listening to native and release all state.
+   * Pending calls and dispatches reject with a DESTROYED error, `subscribe` listeners
+   * are notified that the stores are gone, and later calls do nothing or reject.
+   * Stores still held keep their last snapshot but receive no further updates.
+   */
+  destroy: () => void;
+}
+
+/**
+ * Options for registering a WebView with the native bridge
+ */
+export interface RegisterWebViewOptions<TStores extends BridgeStores> {
+  /**
+   * Stores the WebView may see and send events to, as a list of keys or a predicate.
+   * Defaults to all stores.
+   */
+  stores?: (keyof TStores)[] | ((storeKey: keyof TStores) => boolean);
+  /**
+   * Id reported as `webViewId` in the metadata of events this WebView sends.
+   * Defaults to a generated id.
+   */
+  id?: string;
+}
+
 /**
  * Native bridge interface with additional capabilities specific to the native side.
  */
-export interface NativeBridge<TStores extends BridgeStores> extends Bridge<TStores> {
-  handleWebMessage: (message: string | { nativeEvent: { data: string } }) => void;
-  registerWebView: (webView: WebView | null | undefined) => () => void;
+export interface NativeBridge<
+  TStores extends BridgeStores,
+  TMethods extends BridgeMethods = BridgeMethods
+> extends Bridge<TStores> {
+  /**
+   * Process a message received from a WebView.
+   * Pass the WebView the message came from so readiness, responses and store
+   * access are tracked for that WebView only. Without it the message is
+   * treated as coming from every registered WebView.
+   */
+  handleWebMessage: (
+    message: string | { nativeEvent: { data: string } },
+    webView?: WebView | null
+  ) => void;
+  registerWebView: (
+    webView: WebView | null | undefined,
+    options?: RegisterWebViewOptions<TStores>
+  ) => () => void;
   unregisterWebView: (webView: WebView | null | undefined) => void;
+  /**
+   * Talk to a web bridge over a transport instead of a WebView, e.g. an iframe or
+   * a MessagePort. The transport is treated like a registered WebView.
+   * Returns a function that disconnects and closes the transport.
+   */
+  connect: (transport: Transport, options?: RegisterWebViewOptions<TStores>) => () => void;
   subscribeToReadyState: (
     webView: WebView | null | undefined,
     callback: (isReady: boolean) => void
   ) => () => void;
   getReadyState: (webView: WebView | null | undefined) => boolean;
+  /**
+   * Get the protocol negotiated with a WebView
+   * Returns null until the WebView has completed the handshake
+   */
+  getProtocol: (webView: WebView | null | undefined) => NegotiatedProtocol | null;
+  /**
+   * Register the handler for a method called from the web side.
+   * Replaces any previous handler for the method.
+   * Returns a function that removes the handler.
+   */
+  handle: <M extends keyof TMethods & string>(
+    method: M,
+    handler: (
+      params: TMethods[M]["params"]
+    ) => TMethods[M]["result"] | Promise<TMethods[M]["result"]>
+  ) => () => void;
+  /**
+   * Run `fn` inside a transaction of every registered store, so WebViews receive
+   * only the final state of each store. All stores roll back if `fn` throws.
+   */
+  transaction: (fn: () => void) => void;
+  /**
+   * Run effects on the store registered under `key`, following it when it is replaced.
+   * Running effects are aborted when their store is replaced or removed.
+   * Returns a function that stops the effects.
+   */
+  runEffects: <K extends keyof TStores>(
+    key: K,
+    effects: EffectsConfig<TStores[K]["state"], TStores[K]["events"]>,
+    options?: RunEffectsOptions<TStores[K]["events"]>
+  ) => () => void;
+}
+
+/**
+ * Carries serialized bridge messages between the web and native sides.
+ * Pass one to `createWebBridge` or `NativeBridge.connect` to talk over
+ * something other than a React Native WebView. Browser transports live in
+ * `app-bridge-web`, and the host page side in `app-bridge-web/host`.
+ */
+export interface Transport {
+  /**
+   * Send a message to the other side
+   */
+  send(message: string): void;
+  /**
+   * Listen for messages from the other side
+   * Returns a function that removes the listener
+   */
+  onMessage(listener: (message: string) => void): () => void;
+  /**
+   * Stop sending and receiving messages
+   */
+  close(): void;
 }
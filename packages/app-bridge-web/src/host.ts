@@ -0,0 +1,11 @@
+/**
+ * Transports for a host page that runs the native bridge in the browser and
+ * embeds games in iframes, e.g. `bridge.connect(createIframeTransport(frame, { targetOrigin }))`
+ */
+export {
+  createIframeTransport,
+  createMessagePortTransport,
+  createWindowTransport,
+} from "./transports";
+export type { IframeTransportOptions, WindowTransportOptions } from "./transports";
+export type { Transport } from "@open-game-system/app-bridge-types";
@@ -2,9 +2,30 @@
  * @vitest-environment jsdom
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createWebBridge, BridgeStores, State } from './index';
+import { createInMemoryTransportPair, createWebBridge, BridgeStores, State } from './index';
+import type { Store } from '@open-game-system/app-bridge-types';
+import {
+  BRIDGE_CAPABILITIES,
+  BRIDGE_PROTOCOL_VERSION,
+  MIN_BRIDGE_PROTOCOL_VERSION,
+} from '@open-game-system/app-bridge-types';
 import { Operation } from 'fast-json-patch';
 
+const bridgeReadyMessage = JSON.stringify({
+  type: 'BRIDGE_READY',
+  protocolVersion: BRIDGE_PROTOCOL_VERSION,
+  minProtocolVersion: MIN_BRIDGE_PROTOCOL_VERSION,
+  capabilities: [...BRIDGE_CAPABILITIES]
+});
+
+const sendFromNative = (message: object) => {
+  window.dispatchEvent(
+    new MessageEvent('message', {
+      data: JSON.stringify(message)
+    })
+  );
+};
+
 // Define test-specific types
 interface CounterState extends State {
   value: number;
@@ -34,7 +55,17 @@ describe('Web Bridge', () => {
   let bridge: ReturnType<typeof createWebBridge<TestStores>>;
   let mockPostMessage: ReturnType<typeof vi.fn>;
 
+  // Most tests never destroy their bridges, so collect their window listeners per test
+  const messageHandlers: EventListenerOrEventListenerObject[] = [];
+  const addEventListener = window.addEventListener.bind(window);
+
   beforeEach(() => {
+    vi.spyOn(window, 'addEventListener').mockImplementation(
+      (type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions) => {
+        if (type === 'message') messageHandlers.push(listener);
+        addEventListener(type, listener, options);
+      }
+    );
     mockPostMessage = vi.fn();
     // Mock ReactNativeWebView
     (window as any).ReactNativeWebView = {
@@ -44,17 +75,21 @@ describe('Web Bridge', () => {
   });
 
   afterEach(() => {
+    messageHandlers.splice(0).forEach((handler) => window.removeEventListener('message', handler));
     delete (window as any).ReactNativeWebView;
-    vi.clearAllMocks();
+    vi.restoreAllMocks();
   });
 
+  const getCounterStore = (target = bridge) => {
+    sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+    const store = target.getStore('counter');
+    if (!store) throw new Error('Store not available');
+    return store;
+  };
+
   describe('Bridge Ready', () => {
     it('sends BRIDGE_READY message when created', () => {
-      expect(mockPostMessage).toHaveBeenCalledWith(
-        JSON.stringify({
-          type: 'BRIDGE_READY'
-        })
-      );
+      expect(mockPostMessage).toHaveBeenCalledWith(bridgeReadyMessage);
     });
 
     it('sends BRIDGE_READY message when ReactNativeWebView becomes available', () => {
@@ -69,11 +104,72 @@ describe('Web Bridge', () => {
       // Create bridge after ReactNativeWebView is available
       bridge = createWebBridge<TestStores>();
 
-      expect(mockPostMessage).toHaveBeenCalledWith(
-        JSON.stringify({
-          type: 'BRIDGE_READY'
-        })
+      expect(mockPostMessage).toHaveBeenCalledWith(bridgeReadyMessage);
+    });
+  });
+
+  describe('protocol handshake', () => {
+    it('has no protocol until native acknowledges BRIDGE_READY', () => {
+      expect(bridge.getProtocol()).toBeNull();
+    });
+
+    it('adopts the protocol acknowledged by native', () => {
+      sendFromNative({ type: 'BRIDGE_ACK', protocolVersion: 1, capabilities: [] });
+
+      expect(bridge.getProtocol()).toEqual({ protocolVersion: 1, capabilities: [] });
+    });
+
+    it('refuses a protocol revision older than it supports', () => {
+      const onProtocolError = vi.fn();
+      bridge = createWebBridge<TestStores>({ minProtocolVersion: 2, onProtocolError });
+
+      sendFromNative({ type: 'BRIDGE_ACK', protocolVersion: 1, capabilities: [] });
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+
+      expect(onProtocolError).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'BridgeProtocolError', code: 'INCOMPATIBLE_PROTOCOL_VERSION' })
       );
+      expect(bridge.getProtocol()).toBeNull();
+      expect(bridge.getStore('counter')).toBeUndefined();
+    });
+
+    it('surfaces BRIDGE_ERROR from native as a protocol error', () => {
+      const onProtocolError = vi.fn();
+      bridge = createWebBridge<TestStores>({ onProtocolError });
+
+      sendFromNative({
+        type: 'BRIDGE_ERROR',
+        code: 'INCOMPATIBLE_PROTOCOL_VERSION',
+        message: 'Incompatible bridge protocol',
+        protocolVersion: 5,
+        minProtocolVersion: 5
+      });
+
+      expect(onProtocolError).toHaveBeenCalledTimes(1);
+      const error = onProtocolError.mock.calls[0][0];
+      expect(error.message).toBe('Incompatible bridge protocol');
+      expect(error.remoteVersion).toBe(5);
+    });
+
+    it('stops sending events and calls once native refuses the handshake', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const onProtocolError = vi.fn();
+      bridge = createWebBridge<TestStores>({ onProtocolError });
+      const store = getCounterStore();
+      sendFromNative({
+        type: 'BRIDGE_ERROR',
+        code: 'INCOMPATIBLE_PROTOCOL_VERSION',
+        message: 'Incompatible bridge protocol',
+        protocolVersion: 5,
+        minProtocolVersion: 5
+      });
+      mockPostMessage.mockClear();
+
+      store.dispatch({ type: 'INCREMENT' });
+
+      await expect(store.dispatchAsync({ type: 'INCREMENT' })).rejects.toMatchObject({ code: 'REFUSED' });
+      await expect(bridge.call('double', { value: 1 })).rejects.toMatchObject({ name: 'BridgeCallError', code: 'REFUSED' });
+      expect(mockPostMessage).not.toHaveBeenCalled();
     });
   });
 
@@ -285,6 +381,47 @@ describe('Web Bridge', () => {
       // Listener should not be called after unsubscribe
       expect(listener).not.toHaveBeenCalled();
     });
+
+    it('select only notifies listeners when the selected value changes', () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+      const store = bridge.getStore('counter');
+      if (!store) throw new Error('Store not available');
+
+      const listener = vi.fn();
+      store.select((state) => state.value >= 10, listener);
+      expect(listener).not.toHaveBeenCalled();
+
+      sendFromNative({ type: 'STATE_UPDATE', storeKey: 'counter', operations: [{ op: 'replace', path: '/value', value: 5 }] });
+      expect(listener).not.toHaveBeenCalled();
+
+      sendFromNative({ type: 'STATE_UPDATE', storeKey: 'counter', operations: [{ op: 'replace', path: '/value', value: 42 }] });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(true, false);
+    });
+
+    it('select sees nested objects change without mutating previous snapshots', () => {
+      const player = { name: 'ada', hp: 10 };
+      const inventory = { items: ['sword'] };
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'game', data: { player, inventory } });
+      const store = bridge.getStore('game');
+      if (!store) throw new Error('Store not available');
+      const before = store.getSnapshot() as any;
+
+      const playerListener = vi.fn();
+      const inventoryListener = vi.fn();
+      store.select((state: any) => state.player, playerListener);
+      store.select((state: any) => state.inventory, inventoryListener);
+
+      sendFromNative({ type: 'STATE_UPDATE', storeKey: 'game', operations: [{ op: 'replace', path: '/player/hp', value: 7 }] });
+
+      const after = store.getSnapshot() as any;
+      expect(after).not.toBe(before);
+      expect(after.inventory).toBe(before.inventory);
+      expect(before.player).toEqual(player);
+      expect(playerListener).toHaveBeenCalledTimes(1);
+      expect(playerListener).toHaveBeenCalledWith({ name: 'ada', hp: 7 }, { name: 'ada', hp: 10 });
+      expect(inventoryListener).not.toHaveBeenCalled();
+    });
   });
 
   describe('event dispatching', () => {
@@ -309,13 +446,13 @@ describe('Web Bridge', () => {
       store.dispatch({ type: 'INCREMENT' });
 
       // Check that postMessage was called with the correct event
-      expect(mockPostMessage).toHaveBeenCalledWith(
-        JSON.stringify({
-          type: 'EVENT',
-          storeKey: 'counter',
-          event: { type: 'INCREMENT' }
-        })
-      );
+      const sent = JSON.parse(mockPostMessage.mock.calls[mockPostMessage.mock.calls.length - 1][0]);
+      expect(sent).toEqual({
+        type: 'EVENT',
+        storeKey: 'counter',
+        event: { type: 'INCREMENT' },
+        id: expect.any(String)
+      });
     });
 
     it('handles missing ReactNativeWebView gracefully', () => {
@@ -343,6 +480,802 @@ describe('Web Bridge', () => {
     });
   });
 
+  describe('method calls', () => {
+    const lastCallMessage = () => {
+      const messages = mockPostMessage.mock.calls.map(([message]) => JSON.parse(message));
+      return messages.filter((message) => message.type === 'CALL').pop();
+    };
+
+    it('sends a CALL message with a correlation id', () => {
+      bridge.call('purchaseItem', { itemId: 'sword' });
+
+      expect(lastCallMessage()).toEqual({
+        type: 'CALL',
+        id: expect.any(String),
+        method: 'purchaseItem',
+        params: { itemId: 'sword' }
+      });
+    });
+
+    it('resolves with the result sent by native', async () => {
+      const result = bridge.call('purchaseItem', { itemId: 'sword' });
+      const { id } = lastCallMessage();
+
+      sendFromNative({ type: 'CALL_RESULT', id, result: { receipt: 'r-1' } });
+
+      await expect(result).resolves.toEqual({ receipt: 'r-1' });
+    });
+
+    it('rejects with the error sent by native', async () => {
+      const result = bridge.call('purchaseItem', { itemId: 'sword' });
+      const { id } = lastCallMessage();
+
+      sendFromNative({
+        type: 'CALL_ERROR',
+        id,
+        error: { name: 'PaymentError', message: 'Card declined', code: 'DECLINED' }
+      });
+
+      await expect(result).rejects.toMatchObject({
+        name: 'PaymentError',
+        message: 'Card declined',
+        code: 'DECLINED',
+        method: 'purchaseItem'
+      });
+    });
+
+    it('rejects when native does not answer in time', async () => {
+      vi.useFakeTimers();
+      try {
+        const result = bridge.call('purchaseItem', { itemId: 'sword' }, { timeout: 100 });
+        vi.advanceTimersByTime(100);
+
+        await expect(result).rejects.toMatchObject({ code: 'TIMEOUT' });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('rejects when ReactNativeWebView is not available', async () => {
+      delete (window as any).ReactNativeWebView;
+
+      await expect(bridge.call('purchaseItem', { itemId: 'sword' })).rejects.toMatchObject({
+        code: 'NOT_SUPPORTED'
+      });
+    });
+  });
+
+  describe('store removal', () => {
+    it('drops stores native has removed', () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 }, version: 0 });
+      const listener = vi.fn();
+      bridge.subscribe(listener);
+
+      sendFromNative({ type: 'STORE_REMOVED', storeKey: 'counter' });
+
+      expect(bridge.getStore('counter')).toBeUndefined();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('makes the store available again when native re-adds it', () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 }, version: 0 });
+      sendFromNative({ type: 'STORE_REMOVED', storeKey: 'counter' });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 5 }, version: 0 });
+
+      expect(bridge.getStore('counter')?.getSnapshot()).toEqual({ value: 5 });
+    });
+  });
+
+  describe('state batches', () => {
+    it('applies the updates of several stores from one STATE_BATCH', () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 }, version: 0 });
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'score', data: { points: 10 }, version: 4 });
+      const counterListener = vi.fn();
+      bridge.getStore('counter')?.subscribe(counterListener);
+
+      sendFromNative({
+        type: 'STATE_BATCH',
+        updates: [
+          { storeKey: 'counter', operations: [{ op: 'replace', path: '/value', value: 3 }], version: 1 },
+          { storeKey: 'score', operations: [{ op: 'replace', path: '/points', value: 12 }], version: 5 }
+        ]
+      });
+
+      expect(bridge.getStore('counter')?.getSnapshot()).toEqual({ value: 3 });
+      expect(bridge.getStore('score')?.getSnapshot()).toEqual({ points: 12 });
+      expect(counterListener).toHaveBeenLastCalledWith({ value: 3 });
+    });
+
+    it('checks the version of each update in a batch', () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 }, version: 0 });
+      sendFromNative({ type: 'BRIDGE_ACK', protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: ['resync'] });
+
+      sendFromNative({
+        type: 'STATE_BATCH',
+        updates: [{ storeKey: 'counter', operations: [{ op: 'replace', path: '/value', value: 3 }], version: 2 }]
+      });
+
+      expect(bridge.getStore('counter')?.getSnapshot()).toEqual({ value: 0 });
+      expect(mockPostMessage).toHaveBeenLastCalledWith(
+        JSON.stringify({ type: 'RESYNC_REQUEST', storeKey: 'counter' })
+      );
+    });
+  });
+
+  describe('schema versions', () => {
+    const replaceValue = (version: number, value: number) => ({
+      type: 'STATE_UPDATE',
+      storeKey: 'counter',
+      operations: [{ op: 'replace', path: '/count', value }],
+      version
+    });
+
+    it('accepts state with the expected schema version', () => {
+      const schemaBridge = createWebBridge<TestStores>({ schemas: { counter: { version: 2 } } });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 1 }, version: 0, schemaVersion: 2 });
+
+      expect(schemaBridge.getStore('counter')?.getSnapshot()).toEqual({ value: 1 });
+    });
+
+    it('refuses stores advertising another schema version', () => {
+      const onSchemaMismatch = vi.fn();
+      const schemaBridge = createWebBridge<TestStores>({
+        schemas: { counter: { version: 2 } },
+        onSchemaMismatch
+      });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { count: 1 }, version: 0, schemaVersion: 3 });
+      sendFromNative(replaceValue(1, 2));
+
+      expect(schemaBridge.getStore('counter')).toBeUndefined();
+      expect(onSchemaMismatch).toHaveBeenCalledWith('counter', { expected: 2, received: 3 });
+      expect(
+        mockPostMessage.mock.calls.filter(([message]) => JSON.parse(message).type === 'RESYNC_REQUEST')
+      ).toHaveLength(0);
+    });
+
+    it('adapts state from another schema version, including later updates', () => {
+      const adapt = vi.fn((state: unknown) => ({ value: (state as { count: number }).count }));
+      const schemaBridge = createWebBridge<TestStores>({
+        schemas: { counter: { version: 2, adapt } }
+      });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { count: 1 }, version: 0, schemaVersion: 3 });
+      expect(schemaBridge.getStore('counter')?.getSnapshot()).toEqual({ value: 1 });
+
+      sendFromNative(replaceValue(1, 5));
+
+      expect(schemaBridge.getStore('counter')?.getSnapshot()).toEqual({ value: 5 });
+      expect(adapt).toHaveBeenLastCalledWith({ count: 5 }, 3);
+    });
+
+    it('accepts state from native builds that do not advertise a schema version', () => {
+      const schemaBridge = createWebBridge<TestStores>({ schemas: { counter: { version: 2 } } });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 1 } });
+
+      expect(schemaBridge.getStore('counter')?.getSnapshot()).toEqual({ value: 1 });
+    });
+  });
+
+  describe('state versions', () => {
+    const resyncRequests = () =>
+      mockPostMessage.mock.calls
+        .map(([message]) => JSON.parse(message))
+        .filter((message) => message.type === 'RESYNC_REQUEST');
+
+    const increment = (version: number, value: number) => ({
+      type: 'STATE_UPDATE',
+      storeKey: 'counter',
+      operations: [{ op: 'replace', path: '/value', value }],
+      version
+    });
+
+    beforeEach(() => {
+      sendFromNative({ type: 'BRIDGE_ACK', protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: ['resync'] });
+    });
+
+    it('requests a resync when an update arrives before the initial state', () => {
+      sendFromNative(increment(1, 1));
+
+      expect(resyncRequests()).toEqual([{ type: 'RESYNC_REQUEST', storeKey: 'counter' }]);
+      expect(bridge.getStore('counter')).toBeUndefined();
+    });
+
+    it('requests a resync once when updates are missing', () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 }, version: 0 });
+
+      sendFromNative(increment(2, 2));
+      sendFromNative(increment(3, 3));
+
+      expect(resyncRequests()).toHaveLength(1);
+      expect(bridge.getStore('counter')?.getSnapshot()).toEqual({ value: 0 });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 3 }, version: 3 });
+      sendFromNative(increment(4, 4));
+
+      expect(bridge.getStore('counter')?.getSnapshot()).toEqual({ value: 4 });
+    });
+
+    it('ignores updates it has already applied', () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 }, version: 0 });
+      const store = bridge.getStore('counter');
+      if (!store) throw new Error('Store not available');
+      const listener = vi.fn();
+      store.subscribe(listener);
+      listener.mockReset();
+
+      sendFromNative(increment(1, 1));
+      sendFromNative(increment(1, 1));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(resyncRequests()).toHaveLength(0);
+    });
+
+    it('does not request resyncs from native builds without the capability', () => {
+      bridge = createWebBridge<TestStores>();
+      sendFromNative({ type: 'BRIDGE_ACK', protocolVersion: 1, capabilities: [] });
+      mockPostMessage.mockClear();
+
+      sendFromNative({ type: 'STATE_UPDATE', storeKey: 'other', operations: [], version: 1 });
+
+      expect(resyncRequests()).toHaveLength(0);
+    });
+  });
+
+  describe('acknowledged dispatch', () => {
+    const lastEventMessage = () => {
+      const messages = mockPostMessage.mock.calls.map(([message]) => JSON.parse(message));
+      return messages.filter((message) => message.type === 'EVENT').pop();
+    };
+
+    it('resolves with the version reported by native', async () => {
+      const store = getCounterStore();
+
+      const result = store.dispatchAsync({ type: 'INCREMENT' });
+      const { id } = lastEventMessage();
+      sendFromNative({ type: 'EVENT_ACK', id, storeKey: 'counter', status: 'applied', version: 3 });
+
+      await expect(result).resolves.toEqual({ version: 3 });
+    });
+
+    it('rejects when native rejects the event', async () => {
+      const store = getCounterStore();
+
+      const result = store.dispatchAsync({ type: 'SET', value: -1 });
+      const { id } = lastEventMessage();
+      sendFromNative({
+        type: 'EVENT_ACK',
+        id,
+        storeKey: 'counter',
+        status: 'rejected',
+        reason: 'Value must be positive'
+      });
+
+      await expect(result).rejects.toMatchObject({
+        name: 'BridgeDispatchError',
+        code: 'REJECTED',
+        message: 'Value must be positive',
+        storeKey: 'counter',
+        event: { type: 'SET', value: -1 }
+      });
+    });
+
+    it('rejects with the validation issues when native finds the event invalid', async () => {
+      const store = getCounterStore();
+
+      const result = store.dispatchAsync({ type: 'SET', value: -1 });
+      const { id } = lastEventMessage();
+      sendFromNative({
+        type: 'EVENT_ACK',
+        id,
+        storeKey: 'counter',
+        status: 'invalid',
+        reason: 'Invalid "SET" event: value must be positive',
+        issues: ['value must be positive']
+      });
+
+      await expect(result).rejects.toMatchObject({
+        code: 'INVALID_EVENT',
+        issues: ['value must be positive']
+      });
+    });
+
+    it('rejects when native has no such store', async () => {
+      const store = getCounterStore();
+
+      const result = store.dispatchAsync({ type: 'INCREMENT' });
+      const { id } = lastEventMessage();
+      sendFromNative({ type: 'EVENT_ACK', id, storeKey: 'counter', status: 'unknown_store' });
+
+      await expect(result).rejects.toMatchObject({ code: 'UNKNOWN_STORE' });
+    });
+
+    it('rejects when native does not acknowledge in time', async () => {
+      const store = getCounterStore();
+      vi.useFakeTimers();
+      try {
+        const result = store.dispatchAsync({ type: 'INCREMENT' }, { timeout: 50 });
+        vi.advanceTimersByTime(50);
+
+        await expect(result).rejects.toMatchObject({ code: 'TIMEOUT' });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('event queue', () => {
+    const sentEvents = () =>
+      mockPostMessage.mock.calls
+        .map(([message]) => JSON.parse(message))
+        .filter((message) => message.type === 'EVENT')
+        .map((message) => message.event);
+
+    // Native drops the state, the store held by the game stays around
+    const removeCounterState = () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: null });
+    };
+
+    it('holds events until the store state arrives, then sends them in order', () => {
+      const store = getCounterStore();
+      removeCounterState();
+      const listener = vi.fn();
+      bridge.subscribeToQueue(listener);
+
+      store.dispatch({ type: 'INCREMENT' });
+      store.dispatch({ type: 'SET', value: 5 });
+
+      expect(sentEvents()).toEqual([]);
+      expect(bridge.getQueueStatus()).toEqual({ pending: { counter: 2 }, size: 2, dropped: 0 });
+      expect(listener).toHaveBeenCalledTimes(2);
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+
+      expect(sentEvents()).toEqual([{ type: 'INCREMENT' }, { type: 'SET', value: 5 }]);
+      expect(bridge.getQueueStatus()).toEqual({ pending: {}, size: 0, dropped: 0 });
+      expect(listener).toHaveBeenLastCalledWith({ pending: {}, size: 0, dropped: 0 });
+    });
+
+    it('queues events dispatched before any STATE_INIT', () => {
+      expect(bridge.getStore('counter')).toBeUndefined();
+
+      bridge.dispatch('counter', { type: 'INCREMENT' });
+
+      expect(sentEvents()).toEqual([]);
+      expect(bridge.getQueueStatus()).toEqual({ pending: { counter: 1 }, size: 1, dropped: 0 });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+
+      expect(sentEvents()).toEqual([{ type: 'INCREMENT' }]);
+    });
+
+    it('waits for BRIDGE_ACK when native announces revision 2 or later', () => {
+      bridge.dispatch('counter', { type: 'INCREMENT' });
+      sendFromNative({
+        type: 'STATE_INIT',
+        storeKey: 'counter',
+        data: { value: 0 },
+        protocolVersion: BRIDGE_PROTOCOL_VERSION
+      });
+      bridge.getStore('counter')!.dispatch({ type: 'SET', value: 5 });
+
+      expect(sentEvents()).toEqual([]);
+
+      sendFromNative({ type: 'BRIDGE_ACK', protocolVersion: BRIDGE_PROTOCOL_VERSION, capabilities: [] });
+
+      expect(sentEvents()).toEqual([{ type: 'INCREMENT' }, { type: 'SET', value: 5 }]);
+      expect(bridge.getQueueStatus().size).toBe(0);
+    });
+
+    it('sends events to a native that never acknowledges BRIDGE_READY', () => {
+      const store = getCounterStore();
+
+      store.dispatch({ type: 'INCREMENT' });
+
+      expect(bridge.getProtocol()).toBeNull();
+      expect(sentEvents()).toEqual([{ type: 'INCREMENT' }]);
+      expect(bridge.getQueueStatus().size).toBe(0);
+    });
+
+    it('takes an event out of the queue when its dispatch times out', async () => {
+      const store = getCounterStore();
+      removeCounterState();
+      vi.useFakeTimers();
+      try {
+        const result = store.dispatchAsync({ type: 'INCREMENT' }, { timeout: 50 });
+        vi.advanceTimersByTime(50);
+        await expect(result).rejects.toMatchObject({ code: 'TIMEOUT' });
+      } finally {
+        vi.useRealTimers();
+      }
+
+      expect(bridge.getQueueStatus()).toEqual({ pending: {}, size: 0, dropped: 0 });
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+      expect(sentEvents()).toEqual([]);
+    });
+
+    it('drops the oldest event when a queue is full', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const queueBridge = createWebBridge<TestStores>({ eventQueue: { maxSize: 2 } });
+      const store = getCounterStore(queueBridge);
+      removeCounterState();
+
+      const first = store.dispatchAsync({ type: 'SET', value: 1 });
+      store.dispatch({ type: 'SET', value: 2 });
+      store.dispatch({ type: 'SET', value: 3 });
+
+      await expect(first).rejects.toMatchObject({ name: 'BridgeDispatchError', code: 'DROPPED' });
+      expect(queueBridge.getQueueStatus()).toEqual({ pending: { counter: 2 }, size: 2, dropped: 1 });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+
+      expect(sentEvents()).toEqual([{ type: 'SET', value: 2 }, { type: 'SET', value: 3 }]);
+      queueBridge.destroy();
+    });
+
+    it('drops the new event when a queue is full with the "newest" policy', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const queueBridge = createWebBridge<TestStores>({ eventQueue: { maxSize: 1, dropPolicy: 'newest' } });
+      const store = getCounterStore(queueBridge);
+      removeCounterState();
+
+      store.dispatch({ type: 'SET', value: 1 });
+      await expect(store.dispatchAsync({ type: 'SET', value: 2 })).rejects.toMatchObject({ code: 'DROPPED' });
+
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+
+      expect(sentEvents()).toEqual([{ type: 'SET', value: 1 }]);
+      queueBridge.destroy();
+    });
+
+    it('drops queued events when native refuses the handshake', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onProtocolError = vi.fn();
+      const queueBridge = createWebBridge<TestStores>({ onProtocolError });
+      const store = getCounterStore(queueBridge);
+      removeCounterState();
+      const result = store.dispatchAsync({ type: 'INCREMENT' });
+
+      sendFromNative({
+        type: 'BRIDGE_ERROR',
+        code: 'INCOMPATIBLE_PROTOCOL_VERSION',
+        message: 'Incompatible bridge protocol',
+        protocolVersion: 5,
+        minProtocolVersion: 5
+      });
+
+      await expect(result).rejects.toMatchObject({ code: 'DROPPED' });
+      expect(queueBridge.getQueueStatus()).toEqual({ pending: {}, size: 0, dropped: 1 });
+      expect(sentEvents()).toEqual([]);
+      queueBridge.destroy();
+    });
+
+    it('sends events right away when queueing is disabled', () => {
+      const queueBridge = createWebBridge<TestStores>({ eventQueue: false });
+      const store = getCounterStore(queueBridge);
+      removeCounterState();
+
+      store.dispatch({ type: 'INCREMENT' });
+
+      expect(sentEvents()).toEqual([{ type: 'INCREMENT' }]);
+      queueBridge.destroy();
+    });
+  });
+
+  describe('event errors', () => {
+    const eventError = {
+      type: 'EVENT_ERROR',
+      storeKey: 'counter',
+      event: { type: 'SET', value: -1 },
+      id: 'event-1',
+      error: { name: 'RangeError', message: 'Value must be positive', code: 'NEGATIVE' }
+    };
+
+    it('surfaces errors reported by native to onError listeners', () => {
+      const listener = vi.fn();
+      bridge.onError(listener);
+
+      sendFromNative(eventError);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toMatchObject({
+        name: 'RangeError',
+        message: 'Value must be positive',
+        code: 'NEGATIVE',
+        storeKey: 'counter',
+        event: { type: 'SET', value: -1 },
+        eventId: 'event-1'
+      });
+    });
+
+    it('surfaces invalid events sent with plain dispatch', () => {
+      const listener = vi.fn();
+      bridge.onError(listener);
+      const store = getCounterStore();
+      mockPostMessage.mockClear();
+
+      store.dispatch({ type: 'SET', value: -1 });
+      const { id } = JSON.parse(mockPostMessage.mock.calls[0][0]);
+      sendFromNative({
+        type: 'EVENT_ERROR',
+        storeKey: 'counter',
+        event: { type: 'SET', value: -1 },
+        id,
+        error: {
+          name: 'EventValidationError',
+          message: 'Invalid "SET" event',
+          code: 'INVALID_EVENT',
+          data: { issues: ['value must be positive'] }
+        }
+      });
+      sendFromNative({ type: 'EVENT_ACK', id, storeKey: 'counter', status: 'invalid', issues: ['value must be positive'] });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toMatchObject({
+        code: 'INVALID_EVENT',
+        eventId: id,
+        data: { issues: ['value must be positive'] }
+      });
+    });
+
+    it('stops notifying listeners after they unsubscribe', () => {
+      const listener = vi.fn();
+      const unsubscribe = bridge.onError(listener);
+      unsubscribe();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      sendFromNative(eventError);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('destroy', () => {
+    const initCounter = () => {
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 0 } });
+      const store = bridge.getStore('counter');
+      if (!store) throw new Error('Store not available');
+      return store;
+    };
+
+    it('stops applying messages from native', () => {
+      const store = initCounter();
+      const listener = vi.fn();
+      store.subscribe(listener);
+      listener.mockClear();
+
+      bridge.destroy();
+      sendFromNative({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 5 } });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(bridge.getStore('counter')).toBeUndefined();
+    });
+
+    it('keeps the last snapshot in stores still held by the page', () => {
+      const store = initCounter();
+      sendFromNative({ type: 'STATE_UPDATE', storeKey: 'counter', operations: [{ op: 'replace', path: '/value', value: 3 }] });
+      const listener = vi.fn();
+      store.subscribe(listener);
+      listener.mockClear();
+
+      bridge.destroy();
+
+      expect(store.getSnapshot()).toEqual({ value: 3 });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('clears store state and notifies availability subscribers', () => {
+      initCounter();
+      const listener = vi.fn();
+      bridge.subscribe(listener);
+
+      bridge.destroy();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(bridge.getStore('counter')).toBeUndefined();
+      expect(bridge.isSupported()).toBe(false);
+    });
+
+    it('rejects pending and later calls and dispatches', async () => {
+      const store = initCounter();
+      const pendingCall = bridge.call('double', { value: 1 });
+      const pendingDispatch = store.dispatchAsync({ type: 'INCREMENT' });
+
+      bridge.destroy();
+
+      await expect(pendingCall).rejects.toMatchObject({ name: 'BridgeCallError', code: 'DESTROYED' });
+      await expect(pendingDispatch).rejects.toMatchObject({ name: 'BridgeDispatchError', code: 'DESTROYED' });
+      await expect(bridge.call('double', { value: 1 })).rejects.toMatchObject({ code: 'DESTROYED' });
+      await expect(store.dispatchAsync({ type: 'INCREMENT' })).rejects.toMatchObject({ code: 'DESTROYED' });
+    });
+
+    it('does not send events after being destroyed', () => {
+      const store = initCounter();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      bridge.destroy();
+      mockPostMessage.mockClear();
+
+      store.dispatch({ type: 'INCREMENT' });
+
+      expect(mockPostMessage).not.toHaveBeenCalled();
+    });
+
+    it('can be called more than once', () => {
+      bridge.destroy();
+      expect(() => bridge.destroy()).not.toThrow();
+    });
+  });
+
+  describe('transports', () => {
+    it('talks to native over a custom transport', async () => {
+      const [webEnd, nativeEnd] = createInMemoryTransportPair();
+      const received: any[] = [];
+      nativeEnd.onMessage((message) => received.push(JSON.parse(message)));
+      mockPostMessage.mockClear();
+
+      const transportBridge = createWebBridge<TestStores>({ transport: webEnd });
+      await Promise.resolve();
+
+      expect(transportBridge.isSupported()).toBe(true);
+      expect(received).toEqual([expect.objectContaining({ type: 'BRIDGE_READY' })]);
+
+      nativeEnd.send(JSON.stringify({ type: 'STATE_INIT', storeKey: 'counter', data: { value: 3 } }));
+      await Promise.resolve();
+
+      expect(transportBridge.getStore('counter')?.getSnapshot()).toEqual({ value: 3 });
+      expect(mockPostMessage).not.toHaveBeenCalled();
+      transportBridge.destroy();
+    });
+
+    it('closes the transport when destroyed', async () => {
+      const [webEnd, nativeEnd] = createInMemoryTransportPair();
+      const received: string[] = [];
+      nativeEnd.onMessage((message) => received.push(message));
+      const transportBridge = createWebBridge<TestStores>({ transport: webEnd });
+
+      transportBridge.destroy();
+      await Promise.resolve();
+
+      expect(received).toEqual([]);
+    });
+  });
+
+  describe('iframe mode', () => {
+    let frame: HTMLIFrameElement;
+    let frameWindow: Window;
+
+    const sendFrom = (source: Window, origin: string, message: object) => {
+      window.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message), origin, source }));
+    };
+
+    beforeEach(() => {
+      delete (window as any).ReactNativeWebView;
+      frame = document.createElement('iframe');
+      document.body.appendChild(frame);
+      frameWindow = frame.contentWindow!;
+    });
+
+    afterEach(() => {
+      frame.remove();
+    });
+
+    describe('game side', () => {
+      beforeEach(() => {
+        // Pretend this page is the game, framed by the window of the iframe
+        vi.spyOn(window, 'parent', 'get').mockReturnValue(frameWindow as Window & typeof globalThis);
+      });
+
+      it('talks to the parent window when parentOrigin is set', () => {
+        const parentPostMessage = vi.spyOn(frameWindow, 'postMessage').mockImplementation(() => {});
+        const gameBridge = createWebBridge<TestStores>({ parentOrigin: 'https://host.example' });
+
+        expect(gameBridge.isSupported()).toBe(true);
+        expect(parentPostMessage).toHaveBeenCalledWith(expect.stringContaining('BRIDGE_READY'), 'https://host.example');
+
+        sendFrom(frameWindow, 'https://host.example', { type: 'STATE_INIT', storeKey: 'counter', data: { value: 2 } });
+        expect(gameBridge.getStore('counter')?.getSnapshot()).toEqual({ value: 2 });
+        gameBridge.destroy();
+      });
+
+      it('ignores messages from other origins and windows', () => {
+        vi.spyOn(frameWindow, 'postMessage').mockImplementation(() => {});
+        const gameBridge = createWebBridge<TestStores>({ parentOrigin: 'https://host.example' });
+
+        sendFrom(frameWindow, 'https://evil.example', { type: 'STATE_INIT', storeKey: 'counter', data: { value: 2 } });
+        sendFrom(window, 'https://host.example', { type: 'STATE_INIT', storeKey: 'counter', data: { value: 3 } });
+
+        expect(gameBridge.getStore('counter')).toBeUndefined();
+        gameBridge.destroy();
+      });
+
+      it('stays unsupported in an iframe without parentOrigin', () => {
+        const gameBridge = createWebBridge<TestStores>();
+        expect(gameBridge.isSupported()).toBe(false);
+      });
+
+      it('prefers the React Native WebView when both are present', () => {
+        const parentPostMessage = vi.spyOn(frameWindow, 'postMessage').mockImplementation(() => {});
+        (window as any).ReactNativeWebView = { postMessage: mockPostMessage };
+        mockPostMessage.mockClear();
+
+        createWebBridge<TestStores>({ parentOrigin: 'https://host.example' });
+
+        expect(mockPostMessage).toHaveBeenCalledWith(expect.stringContaining('BRIDGE_READY'));
+        expect(parentPostMessage).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('standalone mode', () => {
+    const createLocalCounter = () => {
+      let state: CounterState = { value: 0 };
+      const listeners = new Set<(state: CounterState) => void>();
+      return {
+        getSnapshot: () => state,
+        subscribe: (listener: (state: CounterState) => void) => {
+          listeners.add(listener);
+          listener(state);
+          return () => listeners.delete(listener);
+        },
+        dispatch: (event: CounterEvent) => {
+          state = { value: event.type === 'SET' ? event.value : state.value + (event.type === 'INCREMENT' ? 1 : -1) };
+          listeners.forEach((listener) => listener(state));
+        },
+      } as unknown as Store<CounterState, CounterEvent>;
+    };
+
+    beforeEach(() => {
+      delete (window as any).ReactNativeWebView;
+    });
+
+    it('runs the fallback stores locally without a native side', () => {
+      const standaloneBridge = createWebBridge<TestStores>({ fallbackStores: { counter: createLocalCounter } });
+      const store = standaloneBridge.getStore('counter');
+
+      expect(standaloneBridge.isSupported()).toBe(false);
+      expect(standaloneBridge.getMode()).toBe('standalone');
+      expect(store?.getSnapshot()).toEqual({ value: 0 });
+
+      store?.dispatch({ type: 'INCREMENT' });
+
+      expect(store?.getSnapshot()).toEqual({ value: 1 });
+    });
+
+    it('adds select to fallback stores that lack it', () => {
+      const standaloneBridge = createWebBridge<TestStores>({ fallbackStores: { counter: createLocalCounter } });
+      const store = standaloneBridge.getStore('counter')!;
+      const listener = vi.fn();
+
+      store.select((state) => state.value, listener);
+      store.dispatch({ type: 'SET', value: 3 });
+
+      expect(listener).toHaveBeenCalledWith(3, 0);
+    });
+
+    it('ignores the fallback stores when native is available', () => {
+      (window as any).ReactNativeWebView = { postMessage: mockPostMessage };
+      const factory = vi.fn(createLocalCounter);
+      const connectedBridge = createWebBridge<TestStores>({ fallbackStores: { counter: factory } });
+
+      expect(factory).not.toHaveBeenCalled();
+      expect(connectedBridge.getMode()).toBe('native');
+      expect(connectedBridge.getStore('counter')).toBeUndefined();
+    });
+
+    it('reports the mode without native or fallback stores', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const standaloneBridge = createWebBridge<TestStores>({ fallbackStores: { counter: createLocalCounter } });
+
+      expect(createWebBridge<TestStores>().getMode()).toBe('unavailable');
+      standaloneBridge.destroy();
+      expect(standaloneBridge.getMode()).toBe('unavailable');
+      expect(standaloneBridge.getStore('counter')).toBeUndefined();
+    });
+  });
+
   describe('error handling', () => {
     it('handles invalid message data gracefully', () => {
       // Send invalid JSON
@@ -1,31 +1,59 @@
-import { applyPatch } from "fast-json-patch";
+import { applyOperation, unescapePathComponent } from "fast-json-patch";
+import {
+  BridgeCallError,
+  BridgeDispatchError,
+  BridgeEventError,
+  BridgeProtocolError,
+  negotiateProtocol,
+  subscribeWithSelector,
+  BRIDGE_PROTOCOL_VERSION,
+  MIN_BRIDGE_PROTOCOL_VERSION,
+  BRIDGE_CAPABILITIES,
+} from "@open-game-system/app-bridge-types";
 import type {
-  Bridge,
+  BridgeMethods,
   BridgeStores,
+  BridgeProtocolInfo,
   Event,
-  Store,
+  CallOptions,
+  DispatchOptions,
+  DispatchResult,
+  EventMeta,
+  EventQueueStatus,
+  NegotiatedProtocol,
   Operation,
+  NativeToWebMessage,
+  SelectOptions,
+  State,
+  Transport,
+  WebBridge,
+  WebToNativeMessage,
+  WebStore,
+  Store,
 } from "@open-game-system/app-bridge-types";
+import { createParentWindowTransport, createReactNativeWebViewTransport } from "./transports";
 
-export type { BridgeStores, State } from "@open-game-system/app-bridge-types";
+export {
+  createInMemoryTransportPair,
+  createMessagePortTransport,
+  createParentWindowTransport,
+  createReactNativeWebViewTransport,
+  createWindowTransport,
+} from "./transports";
+export type { IframeTransportOptions, WindowTransportOptions } from "./transports";
 
-/**
- * Message types for communication
- */
-export type WebToNativeMessage =
-  | { type: "EVENT"; storeKey: string; event: Event }
-  | { type: "BRIDGE_READY" };
-
-export type NativeToWebMessage<TStores extends BridgeStores = BridgeStores> = {
-  type: "STATE_INIT";
-  storeKey: keyof TStores;
-  data: TStores[keyof TStores]["state"];
-} | {
-  type: "STATE_UPDATE";
-  storeKey: keyof TStores;
-  data?: TStores[keyof TStores]["state"];
-  operations?: Operation[];
-};
+export type {
+  BridgeMethods,
+  BridgeStores,
+  EventQueueStatus,
+  State,
+  NativeToWebMessage,
+  Transport,
+  WebBridge,
+  WebBridgeMode,
+  WebStore,
+  WebToNativeMessage,
+} from "@open-game-system/app-bridge-types";
 
 export interface WebViewBridge {
   postMessage: (message: string) => void;
@@ -37,26 +65,295 @@ declare global {
   }
 }
 
+/**
+ * Adapts a store that runs locally to the WebStore interface.
+ * Local stores apply events synchronously and have no bridge version,
+ * so dispatchAsync resolves right away with version 0. Stores without
+ * `select` get one built on their `subscribe`.
+ */
+const toWebStore = <S extends State, E extends Event>(
+  store: Store<S, E> | WebStore<S, E>
+): WebStore<S, E> => {
+  if ("dispatchAsync" in store) return store;
+  return Object.assign(Object.create(store) as Store<S, E>, {
+    select:
+      store.select ??
+      (<T>(
+        selector: (state: S) => T,
+        listener: (selected: T, previous: T) => void,
+        selectOptions?: SelectOptions<T>
+      ) => subscribeWithSelector(store, selector, listener, selectOptions)),
+    dispatchAsync: async (event: E): Promise<DispatchResult> => {
+      store.dispatch(event);
+      return { version: 0 };
+    },
+  });
+};
+
+// Objects and arrays of a state, both indexed by the segments of a patch path
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container =>
+  typeof value === "object" && value !== null;
+
+const shallowCopy = (value: Container): Container =>
+  Array.isArray(value) ? [...value] : { ...value };
+
+/**
+ * Applies patch operations without mutating `state`. Objects along each patched
+ * path are copied and untouched branches keep their references, so selectors
+ * and snapshots held by subscribers see changes as new objects.
+ */
+const applyOperations = (state: unknown, operations: Operation[]): unknown => {
+  let root = isContainer(state) ? shallowCopy(state) : state;
+  const copies = new Set<unknown>([root]);
+  const copyPath = (path: string) => {
+    let parent = root;
+    for (const key of path.split("/").slice(1, -1).map(unescapePathComponent)) {
+      if (!isContainer(parent)) return;
+      // Array indices are numeric strings, so arrays are indexed like objects
+      const entries = parent as Record<string, unknown>;
+      let child = entries[key];
+      if (!isContainer(child)) return;
+      if (!copies.has(child)) {
+        child = shallowCopy(child);
+        entries[key] = child;
+        copies.add(child);
+      }
+      parent = child;
+    }
+  };
+  for (const operation of operations) {
+    copyPath(operation.path);
+    // A move also removes the value at its source
+    if (operation.op === "move") copyPath(operation.from);
+    root = applyOperation(root, operation, false, true).newDocument;
+  }
+  return root;
+};
+
+/**
+ * State shape a web build expects for a store
+ */
+export interface StoreSchema<S extends State = State> {
+  /**
+   * Schema version this build was written against
+   */
+  version: number;
+  /**
+   * Converts native state of another schema version to the expected shape.
+   * Without it, stores advertising another version are refused.
+   */
+  adapt?: (state: unknown, schemaVersion: number) => S;
+}
+
+/**
+ * Bounds the events a web bridge queues per store until native is ready
+ */
+export interface EventQueueOptions {
+  /**
+   * Most events queued per store (defaults to 100)
+   */
+  maxSize?: number;
+  /**
+   * Which event to drop when a store's queue is full: the oldest queued one
+   * or the one being dispatched (defaults to "oldest")
+   */
+  dropPolicy?: "oldest" | "newest";
+}
+
+/**
+ * Options for creating a web bridge
+ */
+export interface WebBridgeOptions<TStores extends BridgeStores = BridgeStores> {
+  /**
+   * Protocol revision announced in BRIDGE_READY (defaults to BRIDGE_PROTOCOL_VERSION)
+   */
+  protocolVersion?: number;
+  /**
+   * Oldest protocol revision accepted from native (defaults to MIN_BRIDGE_PROTOCOL_VERSION)
+   */
+  minProtocolVersion?: number;
+  /**
+   * Capabilities announced in BRIDGE_READY (defaults to BRIDGE_CAPABILITIES)
+   */
+  capabilities?: string[];
+  /**
+   * Called when native refuses the handshake or acknowledges a protocol
+   * revision this bridge cannot speak. The bridge stops applying state
+   * messages afterwards.
+   */
+  onProtocolError?: (error: BridgeProtocolError) => void;
+  /**
+   * Default milliseconds to wait for native to answer a method call (defaults to 10000)
+   */
+  callTimeout?: number;
+  /**
+   * Default milliseconds to wait for native to acknowledge a `dispatchAsync` (defaults to 10000)
+   */
+  dispatchTimeout?: number;
+  /**
+   * Expected schema version per store, checked against the schemaVersion native
+   * advertises in STATE_INIT. Stores without an entry accept any version.
+   */
+  schemas?: { [K in keyof TStores]?: StoreSchema<TStores[K]["state"]> };
+  /**
+   * Called when a store is refused because native advertises a schema version
+   * this build cannot adapt. The store stays unavailable until native sends a
+   * compatible state.
+   */
+  onSchemaMismatch?: (
+    storeKey: keyof TStores,
+    mismatch: { expected: number; received: number }
+  ) => void;
+  /**
+   * Carries messages to and from native (defaults to the React Native WebView
+   * the page runs in, see createReactNativeWebViewTransport)
+   */
+  transport?: Transport;
+  /**
+   * Origin of the host page when the game is embedded in an iframe, e.g.
+   * "https://play.example". When set and the page runs in an iframe rather than
+   * a React Native WebView, the parent window plays the role of native.
+   */
+  parentOrigin?: string;
+  /**
+   * Factories for stores to run locally when there is no native side, e.g. when
+   * the game is opened in a normal browser. Usually `createStore` with the same
+   * producers native uses. Ignored when a native side is available.
+   */
+  fallbackStores?: {
+    [K in keyof TStores]?: () => Store<TStores[K]["state"], TStores[K]["events"]>;
+  };
+  /**
+   * Limits for events queued until native has sent the store's state.
+   * Pass false to send events right away instead.
+   */
+  eventQueue?: EventQueueOptions | false;
+}
+
+const DEFAULT_CALL_TIMEOUT = 10000;
+const DEFAULT_DISPATCH_TIMEOUT = 10000;
+const DEFAULT_EVENT_QUEUE_SIZE = 100;
+
+interface PendingCall {
+  method: string;
+  resolve: (result: any) => void;
+  reject: (error: BridgeCallError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface QueuedEvent {
+  event: Event;
+  id: string;
+}
+
+interface PendingDispatch {
+  storeKey: string;
+  event: Event;
+  resolve: (result: DispatchResult) => void;
+  reject: (error: BridgeDispatchError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 /**
  * Creates a web bridge instance for use in web applications
  * This implementation receives state from the native side through WebView messages
  *
  * @template TStores Store definitions for the bridge
- * @returns A Bridge instance
+ * @param options Protocol options for the handshake with native
+ * @returns A WebBridge instance
  */
 export function createWebBridge<
-  TStores extends BridgeStores
->(): Bridge<TStores> {
+  TStores extends BridgeStores,
+  TMethods extends BridgeMethods = BridgeMethods
+>(options: WebBridgeOptions<TStores> = {}): WebBridge<TStores, TMethods> {
+  const protocol: BridgeProtocolInfo = {
+    protocolVersion: options.protocolVersion ?? BRIDGE_PROTOCOL_VERSION,
+    minProtocolVersion: options.minProtocolVersion ?? MIN_BRIDGE_PROTOCOL_VERSION,
+    capabilities: options.capabilities ?? [...BRIDGE_CAPABILITIES],
+  };
+
+  // Protocol agreed with native, and whether native refused to talk to us
+  let negotiatedProtocol: NegotiatedProtocol | null = null;
+  let refused = false;
+
+  // Protocol revision native announced in STATE_INIT, unknown for revision 1 natives
+  let nativeProtocolVersion: number | undefined;
+
+  // Set by destroy(), the bridge ignores native and refuses new work afterwards
+  let destroyed = false;
+  let removeMessageListener = () => {};
+
+  // Embedded in a host page's iframe instead of a React Native WebView
+  const inIframe =
+    options.parentOrigin !== undefined &&
+    typeof window !== "undefined" &&
+    !window.ReactNativeWebView &&
+    window.parent !== window;
+
+  // Messages travel over the given transport, to the host page when embedded
+  // in an iframe, or to the React Native WebView by default
+  const transport: Transport | undefined =
+    options.transport ??
+    (inIframe
+      ? createParentWindowTransport({ targetOrigin: options.parentOrigin! })
+      : typeof window !== "undefined"
+        ? createReactNativeWebViewTransport()
+        : undefined);
+
+  /**
+   * Whether there is a native side to send messages to
+   */
+  const isConnected = () =>
+    !destroyed &&
+    (options.transport !== undefined ||
+      inIframe ||
+      (typeof window !== "undefined" && !!window.ReactNativeWebView));
+
+  // Without a native side the page can run its fallback stores instead
+  const standalone = !isConnected() && options.fallbackStores !== undefined;
+
+  const send = (message: WebToNativeMessage) => {
+    transport!.send(JSON.stringify(message));
+  };
+
+  // Method calls and events waiting for a response from native, by correlation id
+  const pendingCalls = new Map<string, PendingCall>();
+  const pendingDispatches = new Map<string, PendingDispatch>();
+  let messageCounter = 0;
+  const nextMessageId = (prefix: string) => `${prefix}-${++messageCounter}`;
+
   // Internal state storage
   const stateByStore = new Map<
     keyof TStores,
     TStores[keyof TStores]["state"]
   >();
 
+  // State of each store when the bridge was destroyed, so stores still held
+  // by the page keep returning their last snapshot
+  const finalStates = new Map<
+    keyof TStores,
+    TStores[keyof TStores]["state"]
+  >();
+
+  // Version of the state held for each store, as reported by native
+  const stateVersions = new Map<keyof TStores, number>();
+
+  // Stores for which a full state has been requested and not yet received
+  const resyncRequested = new Set<keyof TStores>();
+
+  // Native state and schema version of stores whose state is adapted,
+  // patches apply to the native state before it is adapted again
+  const nativeStateByStore = new Map<keyof TStores, { state: unknown; schemaVersion: number }>();
+
+  // Stores refused for advertising an unexpected schema version
+  const schemaRefused = new Set<keyof TStores>();
+
   // Store instances by key
   const stores = new Map<
     keyof TStores,
-    Store<TStores[keyof TStores]["state"], TStores[keyof TStores]["events"]>
+    WebStore<TStores[keyof TStores]["state"], TStores[keyof TStores]["events"]>
   >();
 
   // Listeners for state changes by store key
@@ -68,6 +365,22 @@ export function createWebBridge<
   // Listeners for store availability changes
   const storeListeners = new Set<() => void>();
 
+  // Events held back until native is ready for them, by store key
+  const queueOptions =
+    options.eventQueue === false
+      ? null
+      : {
+          maxSize: options.eventQueue?.maxSize ?? DEFAULT_EVENT_QUEUE_SIZE,
+          dropPolicy: options.eventQueue?.dropPolicy ?? "oldest",
+        };
+  const eventQueues = new Map<keyof TStores, QueuedEvent[]>();
+  let droppedEvents = 0;
+  let queueStatus: EventQueueStatus = { pending: {}, size: 0, dropped: 0 };
+  const queueListeners = new Set<(status: EventQueueStatus) => void>();
+
+  // Listeners for errors native reports for events sent by this page
+  const errorListeners = new Set<(error: BridgeEventError) => void>();
+
   /**
    * Notify all listeners for a specific store's state changes
    */
@@ -86,61 +399,399 @@ export function createWebBridge<
     storeListeners.forEach((listener) => listener());
   };
 
+  // Recompute the queue status and pass it to queue listeners
+  const notifyQueueListeners = () => {
+    const pending: Record<string, number> = {};
+    let size = 0;
+    eventQueues.forEach((queue, storeKey) => {
+      pending[String(storeKey)] = queue.length;
+      size += queue.length;
+    });
+    queueStatus = { pending, size, dropped: droppedEvents };
+    queueListeners.forEach((listener) => listener(queueStatus));
+  };
+
+  /**
+   * Whether native has sent the state of a store and, from revision 2 on,
+   * acknowledged BRIDGE_READY. Revision 1 natives never acknowledge it.
+   */
+  const isReadyFor = (storeKey: keyof TStores) =>
+    stateByStore.has(storeKey) &&
+    (negotiatedProtocol !== null || (nativeProtocolVersion ?? 1) < 2);
+
+  /**
+   * Give up on a queued event, failing its dispatchAsync if there is one
+   */
+  const dropEvent = (storeKey: keyof TStores, queued: QueuedEvent, reason: string) => {
+    droppedEvents++;
+    const pendingDispatch = pendingDispatches.get(queued.id);
+    if (!pendingDispatch) return;
+    pendingDispatches.delete(queued.id);
+    clearTimeout(pendingDispatch.timer);
+    pendingDispatch.reject(
+      new BridgeDispatchError(reason, { code: "DROPPED", storeKey: String(storeKey), event: queued.event })
+    );
+  };
+
+  const enqueueEvent = (storeKey: keyof TStores, event: Event, id: string) => {
+    const { maxSize, dropPolicy } = queueOptions!;
+    let queue = eventQueues.get(storeKey);
+    if (!queue) {
+      queue = [];
+      eventQueues.set(storeKey, queue);
+    }
+    let dropped: QueuedEvent | undefined;
+    if (queue.length >= maxSize) {
+      dropped = dropPolicy === "oldest" && queue.length > 0 ? queue.shift()! : { event, id };
+      console.warn(
+        `[Web Bridge] Event queue for store '${String(storeKey)}' is full, dropping "${dropped.event.type}"`
+      );
+      dropEvent(
+        storeKey,
+        dropped,
+        `Event "${dropped.event.type}" was dropped: the queue for store "${String(storeKey)}" is full`
+      );
+    }
+    if (dropped?.id !== id) queue.push({ event, id });
+    if (queue.length === 0) eventQueues.delete(storeKey);
+    notifyQueueListeners();
+  };
+
+  /**
+   * Take an event out of its store's queue without sending it
+   */
+  const unqueueEvent = (storeKey: keyof TStores, id: string) => {
+    const queue = eventQueues.get(storeKey);
+    const index = queue?.findIndex((queued) => queued.id === id) ?? -1;
+    if (index === -1) return;
+    queue!.splice(index, 1);
+    if (queue!.length === 0) eventQueues.delete(storeKey);
+    notifyQueueListeners();
+  };
+
+  /**
+   * Send the events queued for a store, in order, once native is ready for them
+   */
+  const flushEvents = (storeKey: keyof TStores) => {
+    const queue = eventQueues.get(storeKey);
+    if (!queue || !isReadyFor(storeKey)) return;
+    eventQueues.delete(storeKey);
+    queue.forEach(({ event, id }) =>
+      send({ type: "EVENT", storeKey: storeKey as string, event, id })
+    );
+    notifyQueueListeners();
+  };
+
+  /**
+   * Send an event for a store to native
+   * Returns false if there is no native side to send it to
+   */
+  const sendEvent = (storeKey: keyof TStores, event: Event, id: string): boolean => {
+    if (destroyed) {
+      console.warn("[Web Bridge] Cannot dispatch events: the bridge was destroyed");
+      return false;
+    }
+    if (refused) {
+      console.warn("[Web Bridge] Cannot dispatch events: native refused the handshake");
+      return false;
+    }
+    if (!isConnected()) {
+      console.warn(
+        "[Web Bridge] Cannot dispatch events: not connected to native"
+      );
+      return false;
+    }
+    if (queueOptions && !isReadyFor(storeKey)) {
+      enqueueEvent(storeKey, event, id);
+      return true;
+    }
+    const message: WebToNativeMessage = {
+      type: "EVENT",
+      storeKey: storeKey as string,
+      event,
+      id,
+    };
+    console.log("[Web Bridge] Sending message to native:", message);
+    send(message);
+    return true;
+  };
+
+  /**
+   * Ask native to resend the full state of a store after a gap in its updates
+   */
+  const requestResync = (storeKey: keyof TStores) => {
+    if (resyncRequested.has(storeKey)) return;
+    if (!isConnected()) return;
+    // Older native builds do not understand RESYNC_REQUEST
+    if (!negotiatedProtocol?.capabilities.includes("resync")) return;
+    resyncRequested.add(storeKey);
+    send({
+      type: "RESYNC_REQUEST",
+      storeKey: storeKey as string,
+    });
+  };
+
+  /**
+   * Stop talking to native after a failed handshake
+   */
+  const refuse = (error: BridgeProtocolError) => {
+    refused = true;
+    negotiatedProtocol = null;
+    if (eventQueues.size > 0) {
+      eventQueues.forEach((queue, storeKey) =>
+        queue.forEach((queued) =>
+          dropEvent(storeKey, queued, `Event "${queued.event.type}" was dropped: native refused the handshake`)
+        )
+      );
+      eventQueues.clear();
+      notifyQueueListeners();
+    }
+    if (options.onProtocolError) {
+      options.onProtocolError(error);
+    } else {
+      console.error("[Web Bridge] Bridge handshake failed:", error.message);
+    }
+  };
+
+  /**
+   * Apply a STATE_UPDATE, or one update of a STATE_BATCH, to the state of its store
+   */
+  const applyStateUpdate = (message: {
+    storeKey: keyof TStores;
+    data?: TStores[keyof TStores]["state"];
+    operations?: Operation[];
+    version?: number;
+  }) => {
+    const storeKey = message.storeKey as keyof TStores;
+    if (schemaRefused.has(storeKey)) {
+      return;
+    }
+    if (message.data === null) {
+      // Remove state when receiving null data
+      stateByStore.delete(storeKey);
+      stateVersions.delete(storeKey);
+      nativeStateByStore.delete(storeKey);
+      notifyStateListeners(storeKey);
+      notifyStoreListeners();
+    } else if (message.operations) {
+      // Apply patch operations, to the native shape for adapted stores
+      const nativeState = nativeStateByStore.get(storeKey);
+      const currentState = nativeState ? nativeState.state : stateByStore.get(storeKey);
+      if (!currentState) {
+        // Update arrived before the initial state, ask for the full state
+        requestResync(storeKey);
+        return;
+      }
+      if (resyncRequested.has(storeKey)) {
+        // A full state is on its way, patches until then are redundant
+        return;
+      }
+      const currentVersion = stateVersions.get(storeKey);
+      if (message.version !== undefined && currentVersion !== undefined) {
+        if (message.version <= currentVersion) {
+          // Duplicate or out-of-order update we already applied
+          return;
+        }
+        if (message.version > currentVersion + 1) {
+          // One or more updates were lost
+          requestResync(storeKey);
+          return;
+        }
+      }
+      try {
+        const newState = applyOperations(currentState, message.operations);
+        if (nativeState) {
+          nativeState.state = newState;
+          const adapt = options.schemas![storeKey]!.adapt!;
+          stateByStore.set(storeKey, adapt(newState, nativeState.schemaVersion));
+        } else {
+          stateByStore.set(storeKey, newState as TStores[keyof TStores]["state"]);
+        }
+      } catch (error) {
+        console.warn(`[Web Bridge] Failed to apply update for store '${String(storeKey)}':`, error);
+        requestResync(storeKey);
+        return;
+      }
+      if (message.version !== undefined) {
+        stateVersions.set(storeKey, message.version);
+      }
+      // console.log(`[Web Bridge] State updated for store '${String(message.storeKey)}' via patch:`, result.newDocument); // Log state after patch
+      notifyStateListeners(storeKey);
+    }
+  };
+
   // Handle messages from native
-  if (typeof window !== "undefined" && window.ReactNativeWebView) {
-    console.log("[Web Bridge] ReactNativeWebView detected. Adding message listener and sending BRIDGE_READY.");
-    // Send bridge ready message
-    window.ReactNativeWebView.postMessage(JSON.stringify({ type: "BRIDGE_READY" }));
+  if (transport && isConnected()) {
+    console.log("[Web Bridge] Connected to native. Adding message listener and sending BRIDGE_READY.");
 
-    const messageHandler = (event: MessageEvent) => {
-      // console.log("[Web Bridge] Received raw message event:", event); // Log raw event
+    const messageHandler = (data: string) => {
+      // console.log("[Web Bridge] Received raw message:", data); // Log raw message
       try {
-        const message = JSON.parse(event.data) as NativeToWebMessage;
+        const message = JSON.parse(data) as NativeToWebMessage<TStores>;
         // console.log("[Web Bridge] Parsed message data:", message); // Log parsed message
-        if (message.type === "STATE_INIT") {
+        if (message.type === "BRIDGE_ACK") {
+          try {
+            // Native already picked the revision, make sure we can speak it too
+            negotiatedProtocol = negotiateProtocol(protocol, {
+              ...message,
+              minProtocolVersion: message.protocolVersion,
+            });
+            refused = false;
+            Array.from(eventQueues.keys()).forEach(flushEvents);
+          } catch (error) {
+            if (!(error instanceof BridgeProtocolError)) throw error;
+            refuse(error);
+          }
+        } else if (message.type === "BRIDGE_ERROR") {
+          refuse(
+            new BridgeProtocolError(message.message, {
+              code: message.code,
+              localVersion: protocol.protocolVersion,
+              remoteVersion: message.protocolVersion,
+            })
+          );
+        } else if (message.type === "CALL_RESULT" || message.type === "CALL_ERROR") {
+          const pendingCall = pendingCalls.get(message.id);
+          if (!pendingCall) return;
+          pendingCalls.delete(message.id);
+          clearTimeout(pendingCall.timer);
+          if (message.type === "CALL_RESULT") {
+            pendingCall.resolve(message.result);
+          } else {
+            pendingCall.reject(
+              new BridgeCallError(message.error.message, {
+                method: pendingCall.method,
+                name: message.error.name,
+                code: message.error.code,
+                data: message.error.data,
+              })
+            );
+          }
+        } else if (message.type === "EVENT_ACK") {
+          const pendingDispatch = pendingDispatches.get(message.id);
+          if (!pendingDispatch) return;
+          pendingDispatches.delete(message.id);
+          clearTimeout(pendingDispatch.timer);
+          if (message.status === "applied") {
+            pendingDispatch.resolve({ version: message.version ?? 0 });
+          } else {
+            pendingDispatch.reject(
+              new BridgeDispatchError(
+                message.reason ?? `Event was not applied to store "${String(message.storeKey)}"`,
+                {
+                  code:
+                    message.status === "unknown_store"
+                      ? "UNKNOWN_STORE"
+                      : message.status === "invalid"
+                        ? "INVALID_EVENT"
+                        : "REJECTED",
+                  storeKey: String(message.storeKey),
+                  event: pendingDispatch.event,
+                  issues: message.issues,
+                }
+              )
+            );
+          }
+        } else if (message.type === "EVENT_ERROR") {
+          const error = new BridgeEventError(message.error.message, {
+            storeKey: String(message.storeKey),
+            event: message.event,
+            eventId: message.id,
+            name: message.error.name,
+            code: message.error.code,
+            data: message.error.data,
+          });
+          if (errorListeners.size === 0) {
+            console.error(`[Web Bridge] Native failed to apply event "${message.event.type}":`, error);
+          }
+          errorListeners.forEach((listener) => listener(error));
+        } else if (refused) {
+          return;
+        } else if (message.type === "STATE_INIT") {
           // console.log(`[Web Bridge] Handling STATE_INIT for store '${String(message.storeKey)}'`, message.data); // Log init handling
+          const storeKey = message.storeKey as keyof TStores;
+          if (message.protocolVersion !== undefined) {
+            nativeProtocolVersion = message.protocolVersion;
+          }
+          resyncRequested.delete(storeKey);
+          nativeStateByStore.delete(storeKey);
+          schemaRefused.delete(storeKey);
+          const schema = options.schemas?.[storeKey];
           if (message.data === null) {
             // Remove state when receiving null data
-            stateByStore.delete(message.storeKey as keyof TStores);
+            stateByStore.delete(storeKey);
+            stateVersions.delete(storeKey);
+          } else if (
+            schema &&
+            message.schemaVersion !== undefined &&
+            message.schemaVersion !== schema.version &&
+            !schema.adapt
+          ) {
+            // Native state has a shape this build does not understand
+            schemaRefused.add(storeKey);
+            stateByStore.delete(storeKey);
+            stateVersions.delete(storeKey);
+            const mismatch = { expected: schema.version, received: message.schemaVersion };
+            if (options.onSchemaMismatch) {
+              options.onSchemaMismatch(storeKey, mismatch);
+            } else {
+              console.warn(
+                `[Web Bridge] Refusing store '${String(storeKey)}': expected schema version ${mismatch.expected}, received ${mismatch.received}`
+              );
+            }
           } else {
-            // Initialize state with full data
-            stateByStore.set(message.storeKey as keyof TStores, message.data);
+            // Initialize state with full data, adapted to the expected shape when needed
+            if (schema?.adapt && message.schemaVersion !== undefined && message.schemaVersion !== schema.version) {
+              nativeStateByStore.set(storeKey, {
+                state: message.data,
+                schemaVersion: message.schemaVersion,
+              });
+              stateByStore.set(storeKey, schema.adapt(message.data, message.schemaVersion));
+            } else {
+              stateByStore.set(storeKey, message.data);
+            }
+            if (message.version === undefined) {
+              stateVersions.delete(storeKey);
+            } else {
+              stateVersions.set(storeKey, message.version);
+            }
           }
-          notifyStateListeners(message.storeKey as keyof TStores);
+          notifyStateListeners(storeKey);
           notifyStoreListeners();
-        } else if (message.type === "STATE_UPDATE") {
-          // console.log(`[Web Bridge] Handling STATE_UPDATE for store '${String(message.storeKey)}'`, message.operations); // Log update handling
-          if (message.data === null) {
-            // Remove state when receiving null data
-            stateByStore.delete(message.storeKey as keyof TStores);
-            notifyStateListeners(message.storeKey as keyof TStores);
+          flushEvents(storeKey);
+        } else if (message.type === "STORE_REMOVED") {
+          const storeKey = message.storeKey as keyof TStores;
+          resyncRequested.delete(storeKey);
+          stateVersions.delete(storeKey);
+          nativeStateByStore.delete(storeKey);
+          schemaRefused.delete(storeKey);
+          if (stateByStore.delete(storeKey)) {
             notifyStoreListeners();
-          } else if (message.operations) {
-            // Apply patch operations
-            const currentState = stateByStore.get(
-              message.storeKey as keyof TStores
-            );
-            if (currentState) {
-              const result = applyPatch(currentState, message.operations);
-              stateByStore.set(
-                message.storeKey as keyof TStores,
-                result.newDocument
-              );
-              // console.log(`[Web Bridge] State updated for store '${String(message.storeKey)}' via patch:`, result.newDocument); // Log state after patch
-              notifyStateListeners(message.storeKey as keyof TStores);
-            }
           }
+        } else if (message.type === "STATE_UPDATE") {
+          applyStateUpdate(message);
+        } else if (message.type === "STATE_BATCH") {
+          message.updates.forEach(applyStateUpdate);
         }
       } catch (error) {
         console.error("[Web Bridge] Error handling message:", error); // Keep basic error log
       }
     };
 
-    window.addEventListener("message", messageHandler);
+    // Listen before announcing ourselves so no reply is missed
+    removeMessageListener = transport.onMessage(messageHandler);
 
-    // Optional: Add cleanup function if the bridge instance can be destroyed
-    // () => window.removeEventListener("message", messageHandler);
+    // Send bridge ready message announcing the protocol we speak
+    send({ type: "BRIDGE_READY", ...protocol });
 
+  } else if (standalone) {
+    // Run the fallback stores locally, like stores passed to setStore
+    for (const key of Object.keys(options.fallbackStores!) as (keyof TStores)[]) {
+      const store = options.fallbackStores![key]?.();
+      if (!store) continue;
+      stores.set(key, toWebStore(store));
+      stateByStore.set(key, store.getSnapshot());
+    }
   } else {
     console.warn("[Web Bridge] ReactNativeWebView NOT detected.");
   }
@@ -148,10 +799,9 @@ export function createWebBridge<
   return {
     /**
      * Check if the bridge is supported
-     * For web bridge, this checks if ReactNativeWebView is available
+     * For web bridge, this checks if a transport to native is available
      */
-    isSupported: () =>
-      typeof window !== "undefined" && !!window.ReactNativeWebView,
+    isSupported: isConnected,
 
     /**
      * Get a store by its key
@@ -159,19 +809,19 @@ export function createWebBridge<
      */
     getStore: <K extends keyof TStores>(
       storeKey: K
-    ): Store<TStores[K]["state"], TStores[K]["events"]> | undefined => {
+    ): WebStore<TStores[K]["state"], TStores[K]["events"]> | undefined => {
       // Only return a store if we have state for it
       if (!stateByStore.has(storeKey)) return undefined;
 
       // Return existing store instance if we have one
       let store = stores.get(storeKey) as
-        | Store<TStores[K]["state"], TStores[K]["events"]>
+        | WebStore<TStores[K]["state"], TStores[K]["events"]>
         | undefined;
 
       // Create a new store if needed
       if (!store) {
-        const storeImpl: Store<TStores[K]["state"], TStores[K]["events"]> = {
-          getSnapshot: () => stateByStore.get(storeKey)!,
+        const storeImpl: WebStore<TStores[K]["state"], TStores[K]["events"]> = {
+          getSnapshot: () => (destroyed ? finalStates : stateByStore).get(storeKey)!,
           subscribe: (listener: (state: TStores[K]["state"]) => void) => {
             if (!stateListeners.has(storeKey)) {
               stateListeners.set(storeKey, new Set());
@@ -188,21 +838,53 @@ export function createWebBridge<
               listeners.delete(listener);
             };
           },
+          select: <T>(
+            selector: (state: TStores[K]["state"]) => T,
+            listener: (selected: T, previous: T) => void,
+            selectOptions?: SelectOptions<T>
+          ) => subscribeWithSelector(storeImpl, selector, listener, selectOptions),
           dispatch: async (event: TStores[K]["events"]): Promise<void> => {
             console.log(`[Web Bridge] Dispatching event for store ${String(storeKey)}:`, event);
-            if (!window.ReactNativeWebView) {
-              console.warn(
-                "[Web Bridge] Cannot dispatch events: ReactNativeWebView not available"
-              );
-              return;
-            }
-            const message: WebToNativeMessage = {
-              type: "EVENT",
-              storeKey: storeKey as string,
-              event,
-            };
-            console.log("[Web Bridge] Sending message to native:", message);
-            window.ReactNativeWebView.postMessage(JSON.stringify(message));
+            sendEvent(storeKey, event, nextMessageId("event"));
+          },
+          dispatchAsync: (
+            event: TStores[K]["events"],
+            dispatchOptions: DispatchOptions = {}
+          ): Promise<DispatchResult> => {
+            return new Promise((resolve, reject) => {
+              const fail = (code: BridgeDispatchError["code"], reason: string) => {
+                reject(new BridgeDispatchError(reason, { code, storeKey: String(storeKey), event }));
+              };
+              if (destroyed) {
+                fail("DESTROYED", "The bridge was destroyed");
+                return;
+              }
+              if (refused) {
+                fail("REFUSED", "Native refused the handshake");
+                return;
+              }
+              if (negotiatedProtocol && !negotiatedProtocol.capabilities.includes("event-ack")) {
+                fail("NOT_SUPPORTED", "Native does not acknowledge dispatched events");
+                return;
+              }
+
+              const id = nextMessageId("event");
+              const timeout =
+                dispatchOptions.timeout ?? options.dispatchTimeout ?? DEFAULT_DISPATCH_TIMEOUT;
+              const timer = setTimeout(() => {
+                pendingDispatches.delete(id);
+                // Native never sees an event that timed out before it was sent
+                unqueueEvent(storeKey, id);
+                fail("TIMEOUT", `Event "${event.type}" was not acknowledged after ${timeout}ms`);
+              }, timeout);
+              pendingDispatches.set(id, { storeKey: String(storeKey), event, resolve, reject, timer });
+
+              if (!sendEvent(storeKey, event, id)) {
+                clearTimeout(timer);
+                pendingDispatches.delete(id);
+                fail("NOT_SUPPORTED", "Not connected to native");
+              }
+            });
           },
           reset: () => {
             // For web bridge, reset is a no-op since state is managed by native
@@ -213,7 +895,8 @@ export function createWebBridge<
             eventType: EventType,
             _listener: (
               event: Extract<TStores[K]["events"], { type: EventType }>,
-              store: Store<TStores[K]["state"], TStores[K]["events"]>
+              store: Store<TStores[K]["state"], TStores[K]["events"]>,
+              meta: EventMeta
             ) => Promise<void> | void
           ): (() => void) => {
               console.warn(`[Web Bridge] store.on("${eventType}", ...) was called, but listeners added on the web side are not executed. Add listeners on the native side or via the store's 'on' config.`);
@@ -228,6 +911,19 @@ export function createWebBridge<
       return store;
     },
 
+    /**
+     * Dispatch an event to a store, queueing it if native has not sent the store yet
+     */
+    dispatch: async <K extends keyof TStores>(
+      storeKey: K,
+      event: TStores[K]["events"]
+    ): Promise<void> => {
+      const store = stores.get(storeKey);
+      if (store) return store.dispatch(event);
+      console.log(`[Web Bridge] Dispatching event for store ${String(storeKey)}:`, event);
+      sendEvent(storeKey, event, nextMessageId("event"));
+    },
+
     /**
      * Set or remove a store for a given key
      */
@@ -235,11 +931,16 @@ export function createWebBridge<
       key: K,
       store: Store<TStores[K]["state"], TStores[K]["events"]> | undefined
     ) => {
+      if (destroyed) {
+        console.warn(`[Web Bridge] Ignoring setStore("${String(key)}"): the bridge was destroyed`);
+        return;
+      }
+      stateVersions.delete(key);
       if (store === undefined) {
         stores.delete(key);
         stateByStore.delete(key);
       } else {
-        stores.set(key, store);
+        stores.set(key, toWebStore(store));
         const snapshot = store.getSnapshot();
         if (snapshot !== undefined) {
           stateByStore.set(key, snapshot);
@@ -258,5 +959,164 @@ export function createWebBridge<
         storeListeners.delete(listener);
       };
     },
+
+    /**
+     * Get the protocol negotiated with native
+     * Returns null until native has acknowledged BRIDGE_READY
+     */
+    getProtocol: () => negotiatedProtocol,
+
+    /**
+     * Get the events waiting for native to be ready
+     */
+    getQueueStatus: () => queueStatus,
+
+    /**
+     * Subscribe to changes of the event queue
+     * Returns an unsubscribe function
+     */
+    subscribeToQueue: (listener: (status: EventQueueStatus) => void) => {
+      queueListeners.add(listener);
+      return () => {
+        queueListeners.delete(listener);
+      };
+    },
+
+    /**
+     * Get the mode the bridge runs in
+     */
+    getMode: () => {
+      if (isConnected()) return "native";
+      return standalone && !destroyed ? "standalone" : "unavailable";
+    },
+
+    /**
+     * Subscribe to errors native reports for events sent by this page
+     * Returns an unsubscribe function
+     */
+    onError: (listener: (error: BridgeEventError) => void) => {
+      errorListeners.add(listener);
+      return () => {
+        errorListeners.delete(listener);
+      };
+    },
+
+    /**
+     * Call a method handled on the native side
+     * Resolves with the handler's result or rejects with a BridgeCallError
+     */
+    call: <M extends keyof TMethods & string>(
+      method: M,
+      params: TMethods[M]["params"],
+      callOptions: CallOptions = {}
+    ): Promise<TMethods[M]["result"]> => {
+      return new Promise((resolve, reject) => {
+        if (destroyed) {
+          reject(
+            new BridgeCallError(`Cannot call "${method}": the bridge was destroyed`, {
+              method,
+              code: "DESTROYED",
+            })
+          );
+          return;
+        }
+        if (refused) {
+          reject(
+            new BridgeCallError(`Cannot call "${method}": native refused the handshake`, {
+              method,
+              code: "REFUSED",
+            })
+          );
+          return;
+        }
+        if (!isConnected()) {
+          reject(
+            new BridgeCallError(`Cannot call "${method}": not connected to native`, {
+              method,
+              code: "NOT_SUPPORTED",
+            })
+          );
+          return;
+        }
+        if (negotiatedProtocol && !negotiatedProtocol.capabilities.includes("rpc")) {
+          reject(
+            new BridgeCallError(`Cannot call "${method}": native does not support method calls`, {
+              method,
+              code: "NOT_SUPPORTED",
+            })
+          );
+          return;
+        }
+
+        const id = nextMessageId("call");
+        const timeout = callOptions.timeout ?? options.callTimeout ?? DEFAULT_CALL_TIMEOUT;
+        const timer = setTimeout(() => {
+          pendingCalls.delete(id);
+          reject(
+            new BridgeCallError(`Call to "${method}" timed out after ${timeout}ms`, {
+              method,
+              code: "TIMEOUT",
+            })
+          );
+        }, timeout);
+        pendingCalls.set(id, { method, resolve, reject, timer });
+
+        send({ type: "CALL", id, method, params });
+      });
+    },
+
+    /**
+     * Stop listening to native and release all state
+     * Safe to call more than once
+     */
+    destroy: () => {
+      if (destroyed) return;
+      destroyed = true;
+      removeMessageListener();
+      transport?.close();
+
+      pendingCalls.forEach((pendingCall) => {
+        clearTimeout(pendingCall.timer);
+        pendingCall.reject(
+          new BridgeCallError(`Call to "${pendingCall.method}" was cancelled: the bridge was destroyed`, {
+            method: pendingCall.method,
+            code: "DESTROYED",
+          })
+        );
+      });
+      pendingCalls.clear();
+      pendingDispatches.forEach((pendingDispatch) => {
+        clearTimeout(pendingDispatch.timer);
+        pendingDispatch.reject(
+          new BridgeDispatchError(`Event "${pendingDispatch.event.type}" was cancelled: the bridge was destroyed`, {
+            code: "DESTROYED",
+            storeKey: pendingDispatch.storeKey,
+            event: pendingDispatch.event,
+          })
+        );
+      });
+      pendingDispatches.clear();
+
+      const hadStores = stateByStore.size > 0 || stores.size > 0;
+      stateByStore.forEach((state, key) => finalStates.set(key, state));
+      stateByStore.clear();
+      stateVersions.clear();
+      resyncRequested.clear();
+      nativeStateByStore.clear();
+      schemaRefused.clear();
+      stores.clear();
+      stateListeners.clear();
+      errorListeners.clear();
+      negotiatedProtocol = null;
+      if (hadStores) {
+        notifyStoreListeners();
+      }
+      storeListeners.clear();
+      if (eventQueues.size > 0) {
+        eventQueues.clear();
+        notifyQueueListeners();
+      }
+      queueListeners.clear();
+    },
   };
 } 
\ No newline at end of file
@@ -0,0 +1,152 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createIframeTransport,
+  createInMemoryTransportPair,
+  createMessagePortTransport,
+  createReactNativeWebViewTransport,
+  createWindowTransport,
+} from './transports';
+
+describe('Transports', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createReactNativeWebViewTransport', () => {
+    afterEach(() => {
+      delete (window as any).ReactNativeWebView;
+    });
+
+    it('sends through window.ReactNativeWebView and receives window messages', () => {
+      const postMessage = vi.fn();
+      (window as any).ReactNativeWebView = { postMessage };
+      const transport = createReactNativeWebViewTransport();
+      const listener = vi.fn();
+      transport.onMessage(listener);
+
+      transport.send('hello');
+      window.dispatchEvent(new MessageEvent('message', { data: 'from native' }));
+      window.dispatchEvent(new MessageEvent('message', { data: { type: 'not a string' } }));
+
+      expect(postMessage.mock.calls).toEqual([['hello']]);
+      expect(listener.mock.calls).toEqual([['from native']]);
+    });
+
+    it('stops sending and receiving once closed', () => {
+      const postMessage = vi.fn();
+      (window as any).ReactNativeWebView = { postMessage };
+      const transport = createReactNativeWebViewTransport();
+      const listener = vi.fn();
+      transport.onMessage(listener);
+
+      transport.close();
+      transport.send('hello');
+      window.dispatchEvent(new MessageEvent('message', { data: 'from native' }));
+
+      expect(postMessage).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createWindowTransport', () => {
+    it('only accepts window messages from the target and its origin', () => {
+      const transport = createWindowTransport({ target: window, targetOrigin: 'https://host.example' });
+      const listener = vi.fn();
+      transport.onMessage(listener);
+
+      window.dispatchEvent(new MessageEvent('message', { data: 'ok', origin: 'https://host.example', source: window }));
+      window.dispatchEvent(new MessageEvent('message', { data: 'bad origin', origin: 'https://evil.example', source: window }));
+      window.dispatchEvent(new MessageEvent('message', { data: 'no source', origin: 'https://host.example' }));
+      transport.close();
+      window.dispatchEvent(new MessageEvent('message', { data: 'closed', origin: 'https://host.example', source: window }));
+
+      expect(listener.mock.calls).toEqual([['ok']]);
+    });
+  });
+
+  describe('createIframeTransport', () => {
+    let frame: HTMLIFrameElement;
+    let frameWindow: Window;
+
+    const sendFrom = (source: Window, origin: string, message: object) => {
+      window.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message), origin, source }));
+    };
+
+    beforeEach(() => {
+      frame = document.createElement('iframe');
+      document.body.appendChild(frame);
+      frameWindow = frame.contentWindow!;
+    });
+
+    afterEach(() => {
+      frame.remove();
+    });
+
+    it('only exchanges messages with the iframe at the target origin', () => {
+      const framePostMessage = vi.spyOn(frameWindow, 'postMessage').mockImplementation(() => {});
+      const transport = createIframeTransport(frame, { targetOrigin: 'https://games.example' });
+      const listener = vi.fn();
+      transport.onMessage(listener);
+
+      transport.send('hello');
+      sendFrom(frameWindow, 'https://games.example', { type: 'BRIDGE_READY' });
+      sendFrom(frameWindow, 'https://evil.example', { type: 'BRIDGE_READY' });
+      sendFrom(window, 'https://games.example', { type: 'BRIDGE_READY' });
+
+      expect(framePostMessage).toHaveBeenCalledWith('hello', 'https://games.example');
+      expect(listener).toHaveBeenCalledTimes(1);
+      transport.close();
+    });
+
+    it('refuses wildcard and malformed origins', () => {
+      expect(() => createIframeTransport(frame, { targetOrigin: '*' })).toThrow('exact origin');
+      expect(() => createIframeTransport(frame, { targetOrigin: 'https://games.example/play' })).toThrow('exact origin');
+    });
+  });
+
+  describe('createMessagePortTransport', () => {
+    it('exchanges messages over a MessageChannel', async () => {
+      const { port1, port2 } = new MessageChannel();
+      const first = createMessagePortTransport(port1);
+      const second = createMessagePortTransport(port2);
+      const received = new Promise<string>((resolve) => second.onMessage(resolve));
+
+      first.send('hello');
+
+      await expect(received).resolves.toBe('hello');
+      first.close();
+      second.close();
+    });
+
+    it('closes the port when closed', () => {
+      const { port1, port2 } = new MessageChannel();
+      const close = vi.spyOn(port1, 'close');
+      const transport = createMessagePortTransport(port1);
+
+      transport.close();
+      transport.close();
+
+      expect(close).toHaveBeenCalledTimes(1);
+      port2.close();
+    });
+  });
+
+  describe('createInMemoryTransportPair', () => {
+    it('delivers messages to the other end until either end is closed', async () => {
+      const [first, second] = createInMemoryTransportPair();
+      const listener = vi.fn();
+      second.onMessage(listener);
+
+      first.send('hello');
+      await Promise.resolve();
+      second.close();
+      first.send('closed');
+      await Promise.resolve();
+
+      expect(listener.mock.calls).toEqual([['hello']]);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import type { Transport } from "@open-game-system/app-bridge-types";
+
+type MessageTarget = {
+  addEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+};
+
+/**
+ * Transport built on the "message" events of an event target,
+ * only passing on string messages accepted by `accept`
+ */
+const createEventTransport = (
+  target: MessageTarget,
+  send: (message: string) => void,
+  accept: (event: MessageEvent) => boolean = () => true,
+  onClose?: () => void
+): Transport => {
+  const handlers = new Set<(event: MessageEvent) => void>();
+  let closed = false;
+  return {
+    send: (message) => {
+      if (!closed) send(message);
+    },
+    onMessage: (listener) => {
+      if (closed) return () => {};
+      const handler = (event: MessageEvent) => {
+        if (typeof event.data === "string" && accept(event)) listener(event.data);
+      };
+      handlers.add(handler);
+      target.addEventListener("message", handler);
+      return () => {
+        handlers.delete(handler);
+        target.removeEventListener("message", handler);
+      };
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      handlers.forEach((handler) => target.removeEventListener("message", handler));
+      handlers.clear();
+      onClose?.();
+    },
+  };
+};
+
+/**
+ * Web side of a page running inside a React Native WebView.
+ * Sends through `window.ReactNativeWebView.postMessage` and receives the
+ * window "message" events native injects.
+ */
+export function createReactNativeWebViewTransport(): Transport {
+  return createEventTransport(window, (message) => {
+    const webView = (window as { ReactNativeWebView?: { postMessage(message: string): void } })
+      .ReactNativeWebView;
+    webView?.postMessage(message);
+  });
+}
+
+export interface WindowTransportOptions {
+  /**
+   * Window to talk to, e.g. `iframe.contentWindow` on the parent or `window.parent` in the iframe
+   */
+  target: Pick<Window, "postMessage">;
+  /**
+   * Origin of the target window. Messages are only sent to and accepted from this
+   * origin. "*" disables the check and should only be used during development.
+   */
+  targetOrigin: string;
+  /**
+   * Window receiving the target's messages (defaults to the global window)
+   */
+  source?: MessageTarget;
+}
+
+/**
+ * Talks to another window with `window.postMessage`, e.g. between an iframe and its parent.
+ * Messages from other windows or origins are ignored.
+ */
+export function createWindowTransport(options: WindowTransportOptions): Transport {
+  const { target, targetOrigin } = options;
+  return createEventTransport(
+    options.source ?? window,
+    (message) => target.postMessage(message, targetOrigin),
+    (event) =>
+      event.source === target && (targetOrigin === "*" || event.origin === targetOrigin)
+  );
+}
+
+export interface IframeTransportOptions {
+  /**
+   * Exact origin of the other page, e.g. "https://games.example". Unlike
+   * `createWindowTransport`, "*" is refused.
+   */
+  targetOrigin: string;
+}
+
+const assertExactOrigin = (targetOrigin: string) => {
+  if (targetOrigin === "*" || !/^[a-z][a-z0-9+.-]*:\/\/[^/]+$/i.test(targetOrigin)) {
+    throw new Error(
+      `Invalid targetOrigin "${targetOrigin}": iframe transports need an exact origin such as "https://games.example"`
+    );
+  }
+};
+
+/**
+ * Host page side of a game running in an iframe, for `NativeBridge.connect`.
+ * Messages are sent to whatever the iframe currently shows, but only if it is
+ * served from `targetOrigin`, and only messages from that frame and origin are accepted.
+ */
+export function createIframeTransport(
+  iframe: Pick<HTMLIFrameElement, "contentWindow">,
+  options: IframeTransportOptions
+): Transport {
+  const { targetOrigin } = options;
+  assertExactOrigin(targetOrigin);
+  return createEventTransport(
+    window,
+    (message) => iframe.contentWindow?.postMessage(message, targetOrigin),
+    (event) =>
+      event.source !== null && event.source === iframe.contentWindow && event.origin === targetOrigin
+  );
+}
+
+/**
+ * Game side of a page embedded in a host page's iframe. Talks to `window.parent`,
+ * which must be served from `targetOrigin`.
+ */
+export function createParentWindowTransport(options: IframeTransportOptions): Transport {
+  assertExactOrigin(options.targetOrigin);
+  return createWindowTransport({ target: window.parent, targetOrigin: options.targetOrigin });
+}
+
+/**
+ * Talks over one end of a `MessageChannel`. Closing the transport closes the port.
+ */
+export function createMessagePortTransport(port: MessagePort): Transport {
+  const transport = createEventTransport(
+    port,
+    (message) => port.postMessage(message),
+    undefined,
+    () => port.close()
+  );
+  // Ports only deliver messages once started when listening with addEventListener
+  port.start();
+  return transport;
+}
+
+/**
+ * Two connected transports for tests. Messages are delivered asynchronously,
+ * like with a real transport, and dropped once either end is closed.
+ */
+export function createInMemoryTransportPair(): [Transport, Transport] {
+  const listeners = [new Set<(message: string) => void>(), new Set<(message: string) => void>()];
+  let closed = false;
+  const createEnd = (own: number): Transport => ({
+    send: (message) => {
+      if (closed) return;
+      queueMicrotask(() => {
+        if (!closed) listeners[1 - own].forEach((listener) => listener(message));
+      });
+    },
+    onMessage: (listener) => {
+      listeners[own].add(listener);
+      return () => {
+        listeners[own].delete(listener);
+      };
+    },
+    close: () => {
+      closed = true;
+      listeners.forEach((set) => set.clear());
+    },
+  });
+  return [createEnd(0), createEnd(1)];
+}
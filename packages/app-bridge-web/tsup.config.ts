@@ -1,9 +1,10 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/host.ts'],
   format: ['cjs', 'esm'],
-  dts: { resolve: true },
+  // Declarations are built from the entries alone, not the whole composite project
+  dts: { resolve: true, compilerOptions: { composite: false } },
   splitting: false,
   sourcemap: true,
   clean: true,